@@ -0,0 +1,113 @@
+/**
+ * 出力形式の自動選択モジュール
+ * 対応しているすべての形式でエンコードし、透過や画質の条件を満たすもののうち最も小さいものを選ぶ
+ */
+
+import type { OutputFormat } from './browserCapabilities.js';
+import { formatBytes } from './formatUtils.js';
+import type { QualityMetrics } from './metrics.js';
+import { supportsAlpha } from './transparency.js';
+
+export type AutoFormatOptions = {
+  // これを下回る SSIM の候補は採用しない
+  minSsim: number;
+};
+
+export const DEFAULT_AUTO_FORMAT_OPTIONS: AutoFormatOptions = {
+  minSsim: 0.95,
+};
+
+/**
+ * 試した形式ごとの結果（一覧に表示して、選ばれた理由を確認できるようにする）
+ */
+export type FormatCandidate = {
+  format: OutputFormat;
+  // エンコード後のサイズ（メタデータの書き戻し前。エンコードできなかった場合は undefined）
+  bytes?: number;
+  ssim?: number;
+  // 採用した候補
+  chosen?: boolean;
+  // 除外した理由（条件を満たした候補は undefined）
+  rejected?: string;
+};
+
+type EncodedCandidate = {
+  result: { blob: Blob; actualFormat: OutputFormat };
+  // エンコードしたキャンバス（目標サイズに合わせて縮小した場合は縮小後）
+  canvas: { width: number; height: number };
+};
+
+// 画素数の多い方、同じ画素数ならバイト数の小さい方を採用する
+function isPreferred(a: EncodedCandidate, b: EncodedCandidate): boolean {
+  const pixelsA = a.canvas.width * a.canvas.height;
+  const pixelsB = b.canvas.width * b.canvas.height;
+  if (pixelsA !== pixelsB) return pixelsA > pixelsB;
+  return a.result.blob.size < b.result.blob.size;
+}
+
+/**
+ * 候補の形式を順に試し、条件を満たす最小のものを返す
+ * 画質指標を算出できなかった候補は画質の条件では除外しない
+ * 目標サイズに合わせて縮小した候補は、縮小していない（画素数の多い）候補より優先しない
+ * @param needsAlpha 画像に透明な画素があり、透過を保存できない形式を除外するか
+ */
+export async function selectSmallestFormat<E extends EncodedCandidate>(
+  formats: OutputFormat[],
+  needsAlpha: boolean,
+  options: AutoFormatOptions,
+  encode: (format: OutputFormat) => Promise<E>,
+  measure: (encoded: E) => Promise<QualityMetrics | undefined>,
+  signal?: AbortSignal
+): Promise<{ encoded: E; metrics?: QualityMetrics; candidates: FormatCandidate[] }> {
+  const candidates: FormatCandidate[] = [];
+  let best: { encoded: E; metrics?: QualityMetrics; candidate: FormatCandidate } | null = null;
+
+  for (const format of formats) {
+    signal?.throwIfAborted();
+    if (needsAlpha && !supportsAlpha(format)) {
+      candidates.push({ format, rejected: '透過を保存できない' });
+      continue;
+    }
+    let encoded: E;
+    try {
+      encoded = await encode(format);
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      candidates.push({ format, rejected: err instanceof Error ? err.message : 'エンコード失敗' });
+      continue;
+    }
+    const bytes = encoded.result.blob.size;
+    // フォールバックした場合は別の形式の候補と重複するため除外する
+    if (encoded.result.actualFormat !== format) {
+      candidates.push({ format, bytes, rejected: `${encoded.result.actualFormat.toUpperCase()} にフォールバック` });
+      continue;
+    }
+    signal?.throwIfAborted();
+    const metrics = await measure(encoded);
+    if (metrics && metrics.ssim < options.minSsim) {
+      candidates.push({ format, bytes, ssim: metrics.ssim, rejected: `SSIM ${metrics.ssim.toFixed(4)} < ${options.minSsim}` });
+      continue;
+    }
+    const candidate: FormatCandidate = { format, bytes, ssim: metrics?.ssim };
+    candidates.push(candidate);
+    if (!best || isPreferred(encoded, best.encoded)) best = { encoded, metrics, candidate };
+  }
+
+  if (!best) {
+    throw new Error(`自動選択: 条件を満たす形式がありません（${describeCandidates(candidates)}）`);
+  }
+  best.candidate.chosen = true;
+  return { encoded: best.encoded, metrics: best.metrics, candidates };
+}
+
+/**
+ * 候補の一覧を 1 行で表す（例: AVIF 12.3 KB · WEBP 15.0 KB · JPEG ✕ 透過を保存できない）
+ */
+export function describeCandidates(candidates: FormatCandidate[]): string {
+  return candidates
+    .map(c => {
+      const size = c.bytes !== undefined ? ` ${formatBytes(c.bytes)}` : '';
+      return `${c.format.toUpperCase()}${size}${c.rejected ? ` ✕ ${c.rejected}` : ''}`;
+    })
+    .join(' · ');
+}
@@ -1,10 +1,32 @@
 /**
  * ブラウザの画像形式対応検出モジュール
  * AVIF, WebP, JPEG, PNG の対応状況を検出し、フォールバック戦略を提供
+ * Web Worker 内でも動作し、その場合は OffscreenCanvas でのエンコード可否を検出する
  */
 
+import type { WorkerRequest, WorkerResponse } from './workerProtocol.js';
+
 export type OutputFormat = 'webp' | 'jpeg' | 'png' | 'avif';
 
+/**
+ * 出力形式の指定（auto は対応形式をすべて試して最小のものを選ぶ）
+ */
+export type FormatChoice = OutputFormat | 'auto';
+
+/**
+ * エンコードに使うバックエンド
+ * - canvas: ブラウザ内蔵エンコーダ（canvas.toBlob / OffscreenCanvas.convertToBlob）
+ * - wasm: 同梱の WASM エンコーダ（MozJPEG / libwebp / libavif / oxipng）
+ */
+export type EncoderBackendId = 'canvas' | 'wasm';
+
+/**
+ * バックエンドの選択方針
+ * - auto: Canvas を優先し、Canvas 非対応の形式のみ WASM を使う
+ * - wasm: 常に WASM を使う（詳細エンコード設定が有効になる）
+ */
+export type EncoderPreference = 'auto' | 'wasm';
+
 export interface FormatSupport {
   avif: boolean;
   webp: boolean;
@@ -16,71 +38,103 @@ export interface FormatInfo {
   format: OutputFormat;
   label: string;
   supported: boolean;
+  // Web Worker（OffscreenCanvas）でエンコードできるか。検出できない場合は undefined
+  workerSupported?: boolean;
+  // 実際にエンコードに使われるバックエンド（どちらも使えない場合は undefined）
+  backend?: EncoderBackendId;
   fallbackInfo?: {
     format: OutputFormat;
     reason: string;
   };
 }
 
+// Worker 内の検出がこれ以上かかる場合は非対応として扱う
+const WORKER_PROBE_TIMEOUT_MS = 5000;
+
 /**
  * ブラウザ機能検出クラス
  */
 export class BrowserCapabilityDetector {
   private supportCache: FormatSupport | null = null;
   private detectionPromise: Promise<FormatSupport> | null = null;
+  private workerDetectionPromise: Promise<FormatSupport | null> | null = null;
+  private workerFactory: (() => Worker) | null = null;
+  private wasmSupportCache: boolean | null = null;
 
   /**
-   * AVIF サポートを検出
+   * Worker 側の検出に使う Worker 生成関数を登録
+   * Worker 内からも読み込まれるモジュールのため、Worker の URL はここでは持たない
    */
-  private async checkAVIFSupport(): Promise<boolean> {
+  setWorkerFactory(factory: () => Worker): void {
+    this.workerFactory = factory;
+    this.workerDetectionPromise = null;
+  }
+
+  /**
+   * 1x1 の画像を指定形式でエンコードできるか試行
+   * DOM がない環境（Web Worker）では OffscreenCanvas.convertToBlob を使う
+   */
+  private async checkEncodeSupport(type: string): Promise<boolean> {
     try {
-      // 1x1の小さなテストキャンバスを作成
-      const canvas = document.createElement('canvas');
-      canvas.width = 1;
-      canvas.height = 1;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return false;
-      
-      // 白いピクセルを描画
-      ctx.fillStyle = '#ffffff';
-      ctx.fillRect(0, 0, 1, 1);
-      
-      // AVIF形式でエンコードを試行
-      const blob = await new Promise<Blob | null>((resolve) =>
-        canvas.toBlob(resolve, 'image/avif', 0.8)
-      );
-      
+      let blob: Blob | null;
+      if (typeof document === 'undefined') {
+        if (typeof OffscreenCanvas === 'undefined') return false;
+        const canvas = new OffscreenCanvas(1, 1);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return false;
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, 1, 1);
+        blob = await canvas.convertToBlob({ type, quality: 0.8 });
+      } else {
+        // 1x1の小さなテストキャンバスを作成
+        const canvas = document.createElement('canvas');
+        canvas.width = 1;
+        canvas.height = 1;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return false;
+
+        // 白いピクセルを描画
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, 1, 1);
+
+        blob = await new Promise<Blob | null>((resolve) =>
+          canvas.toBlob(resolve, type, 0.8)
+        );
+      }
+
       // エンコード成功かつ正しいMIMEタイプかチェック
-      return blob !== null && blob.type === 'image/avif';
+      return blob !== null && blob.type === type;
     } catch {
       return false;
     }
   }
 
   /**
-   * WebP サポートを検出
+   * WebAssembly が利用可能か検出（最小のモジュールヘッダを検証）
    */
-  private async checkWebPSupport(): Promise<boolean> {
+  private checkWasmSupport(): boolean {
     try {
-      const canvas = document.createElement('canvas');
-      canvas.width = 1;
-      canvas.height = 1;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return false;
-      
-      ctx.fillStyle = '#ffffff';
-      ctx.fillRect(0, 0, 1, 1);
-      
-      const blob = await new Promise<Blob | null>((resolve) =>
-        canvas.toBlob(resolve, 'image/webp', 0.8)
-      );
-      
-      return blob !== null && blob.type === 'image/webp';
+      return typeof WebAssembly === 'object' &&
+        WebAssembly.validate(new Uint8Array([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00]));
     } catch {
       return false;
     }
   }
 
+  /**
+   * AVIF サポートを検出
+   */
+  private async checkAVIFSupport(): Promise<boolean> {
+    return this.checkEncodeSupport('image/avif');
+  }
+
+  /**
+   * WebP サポートを検出
+   */
+  private async checkWebPSupport(): Promise<boolean> {
+    return this.checkEncodeSupport('image/webp');
+  }
+
   /**
    * 全画像形式の対応状況を検出
    */
@@ -105,17 +159,103 @@ export class BrowserCapabilityDetector {
    * 実際の検出処理
    */
   private async performDetection(): Promise<FormatSupport> {
-    const [avif, webp] = await Promise.all([
+    // メインスレッドの JPEG / PNG は全ブラウザ対応
+    if (typeof document !== 'undefined') {
+      const [avif, webp] = await Promise.all([
+        this.checkAVIFSupport(),
+        this.checkWebPSupport()
+      ]);
+      return { avif, webp, jpeg: true, png: true };
+    }
+
+    // OffscreenCanvas は JPEG / PNG も実装差があるため全形式を検出
+    const [avif, webp, jpeg, png] = await Promise.all([
       this.checkAVIFSupport(),
-      this.checkWebPSupport()
+      this.checkWebPSupport(),
+      this.checkEncodeSupport('image/jpeg'),
+      this.checkEncodeSupport('image/png'),
     ]);
+    return { avif, webp, jpeg, png };
+  }
 
-    return {
-      avif,
-      webp,
-      jpeg: true, // JPEG は全ブラウザ対応
-      png: true,  // PNG は全ブラウザ対応
-    };
+  /**
+   * Web Worker 内での形式ごとの対応状況を検出
+   * Worker / OffscreenCanvas / createImageBitmap のいずれかが使えない場合は null
+   */
+  async detectWorkerSupport(): Promise<FormatSupport | null> {
+    if (this.workerDetectionPromise) {
+      return this.workerDetectionPromise;
+    }
+    this.workerDetectionPromise = this.performWorkerDetection();
+    return this.workerDetectionPromise;
+  }
+
+  private async performWorkerDetection(): Promise<FormatSupport | null> {
+    if (
+      !this.workerFactory ||
+      typeof Worker === 'undefined' ||
+      typeof OffscreenCanvas === 'undefined' ||
+      typeof createImageBitmap === 'undefined' ||
+      typeof OffscreenCanvas.prototype.convertToBlob !== 'function'
+    ) {
+      return null;
+    }
+
+    let worker: Worker | undefined;
+    try {
+      worker = this.workerFactory();
+      const target = worker;
+      return await new Promise<FormatSupport | null>((resolve) => {
+        const timer = setTimeout(() => resolve(null), WORKER_PROBE_TIMEOUT_MS);
+        target.onmessage = (event: MessageEvent<WorkerResponse>) => {
+          clearTimeout(timer);
+          resolve(event.data.type === 'probe' ? event.data.support : null);
+        };
+        target.onerror = () => {
+          clearTimeout(timer);
+          resolve(null);
+        };
+        const request: WorkerRequest = { id: 0, type: 'probe' };
+        target.postMessage(request);
+      });
+    } catch {
+      return null;
+    } finally {
+      worker?.terminate();
+    }
+  }
+
+  /**
+   * 指定形式を Web Worker でエンコードできるかチェック
+   * OffscreenCanvas で非対応でも、WASM エンコーダが使えれば Worker で処理できる
+   * auto は Worker 内で対応している形式から選ぶため、Worker が使えれば常に処理できる
+   */
+  async isWorkerFormatSupported(format: FormatChoice): Promise<boolean> {
+    const support = await this.detectWorkerSupport();
+    if (!support) return false;
+    if (format === 'auto') return true;
+    return support[format] || this.isWasmSupported();
+  }
+
+  /**
+   * WASM エンコーダが使用可能かチェック
+   */
+  isWasmSupported(): boolean {
+    if (this.wasmSupportCache === null) {
+      this.wasmSupportCache = this.checkWasmSupport();
+    }
+    return this.wasmSupportCache;
+  }
+
+  /**
+   * 指定形式のエンコードに使われるバックエンドを決定
+   * Canvas 非対応の形式は、形式を切り替えるより WASM エンコーダを優先する
+   */
+  async getEncoderBackend(format: OutputFormat, preference: EncoderPreference = 'auto'): Promise<EncoderBackendId | undefined> {
+    const wasm = this.isWasmSupported();
+    if (preference === 'wasm' && wasm) return 'wasm';
+    if (await this.isFormatSupported(format)) return 'canvas';
+    return wasm ? 'wasm' : undefined;
   }
 
   /**
@@ -168,15 +308,19 @@ export class BrowserCapabilityDetector {
   /**
    * UI表示用のフォーマット情報を取得
    */
-  async getFormatInfoList(): Promise<FormatInfo[]> {
-    const support = await this.detectSupport();
+  async getFormatInfoList(preference: EncoderPreference = 'auto'): Promise<FormatInfo[]> {
+    const [support, workerSupport] = await Promise.all([
+      this.detectSupport(),
+      this.detectWorkerSupport().catch(() => null),
+    ]);
+    const wasm = this.isWasmSupported();
     
     const formatInfos: FormatInfo[] = [
       {
         format: 'webp',
         label: 'WebP（推奨）',
         supported: support.webp,
-        fallbackInfo: support.webp ? undefined : {
+        fallbackInfo: support.webp || wasm ? undefined : {
           format: 'jpeg',
           reason: 'WebP未対応のため'
         }
@@ -195,14 +339,18 @@ export class BrowserCapabilityDetector {
         format: 'avif',
         label: 'AVIF',
         supported: support.avif,
-        fallbackInfo: support.avif ? undefined : {
+        fallbackInfo: support.avif || wasm ? undefined : {
           format: support.webp ? 'webp' : 'jpeg',
           reason: 'AVIF未対応のため'
         }
       }
     ];
     
-    return formatInfos;
+    return Promise.all(formatInfos.map(async info => ({
+      ...info,
+      workerSupported: workerSupport ? workerSupport[info.format] || wasm : undefined,
+      backend: await this.getEncoderBackend(info.format, preference),
+    })));
   }
 
   /**
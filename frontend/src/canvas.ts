@@ -0,0 +1,53 @@
+/**
+ * キャンバス生成ヘルパー
+ * メインスレッドでは HTMLCanvasElement、Web Worker 内では OffscreenCanvas を使い、
+ * 同じ処理コードをどちらの環境でも動かせるようにする
+ */
+
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type AnyCanvasContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+function isOffscreenCanvas(canvas: AnyCanvas): canvas is OffscreenCanvas {
+  return typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas;
+}
+
+/**
+ * 2D コンテキストを取得（取得できない場合は例外）
+ */
+export function getContext2D(canvas: AnyCanvas): AnyCanvasContext {
+  const ctx = isOffscreenCanvas(canvas) ? canvas.getContext('2d') : canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  return ctx;
+}
+
+/**
+ * 指定サイズのキャンバスを生成（高品質補間を有効化）
+ */
+export function createCanvas(width: number, height: number): { canvas: AnyCanvas; ctx: AnyCanvasContext } {
+  let canvas: AnyCanvas;
+  if (typeof document === 'undefined') {
+    canvas = new OffscreenCanvas(width, height);
+  } else {
+    canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+  }
+  const ctx = getContext2D(canvas);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  return { canvas, ctx };
+}
+
+/**
+ * キャンバスを指定形式でエンコード（失敗時は null）
+ */
+export async function canvasToBlob(canvas: AnyCanvas, type: string, quality?: number): Promise<Blob | null> {
+  if (isOffscreenCanvas(canvas)) {
+    try {
+      return await canvas.convertToBlob({ type, quality });
+    } catch {
+      return null;
+    }
+  }
+  return new Promise((resolve) => canvas.toBlob(resolve, type, quality));
+}
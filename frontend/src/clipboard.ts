@@ -0,0 +1,151 @@
+/**
+ * クリップボードモジュール
+ * 貼り付けられた画像（ファイル・data URL・HTML 内の画像）を取り出し、変換結果を画像としてクリップボードへコピーする
+ */
+
+import { canvasToBlob, createCanvas } from './canvas.js';
+
+// クリップボードにどのブラウザでも書き込める画像形式
+const CLIPBOARD_IMAGE_TYPE = 'image/png';
+
+const EXTENSION_BY_MIME: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+  'image/svg+xml': 'svg',
+};
+
+export type CopyResult = {
+  // 実際にコピーした形式
+  type: string;
+  // PNG に変換した理由（変換しなかった場合は undefined）
+  convertedReason?: string;
+};
+
+// ClipboardItem.supports は比較的新しく、lib.dom にない場合があるため個別に参照する
+type ClipboardItemStatic = typeof ClipboardItem & { supports?: (type: string) => boolean };
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/**
+ * 貼り付けた画像の名前（例: pasted-20250101-093000-2.png）
+ * スクリーンショットは名前がない、または "image.png" 固定のため日時から生成する
+ */
+function pastedFileName(type: string, index: number, date: Date): string {
+  const stamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  return `pasted-${stamp}${index > 0 ? `-${index + 1}` : ''}.${EXTENSION_BY_MIME[type] ?? 'png'}`;
+}
+
+function isGenericName(name: string): boolean {
+  return name === '' || /^image\.\w+$/i.test(name);
+}
+
+/**
+ * data:image/...;base64,... を Blob に変換（CSP で data: への fetch は許可していないため自前で復号する）
+ */
+export function dataUrlToBlob(url: string): Blob | null {
+  const match = /^data:(image\/[\w.+-]+)((?:;[\w-]+=[^;,]*)*)(;base64)?,(.*)$/is.exec(url.trim());
+  if (!match) return null;
+  const [, type, , base64, payload] = match;
+  try {
+    if (!base64) return new Blob([decodeURIComponent(payload)], { type });
+    const binary = atob(payload.replace(/\s+/g, ''));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type });
+  } catch {
+    return null;
+  }
+}
+
+// HTML に埋め込まれた data URL の画像（外部 URL は CSP で取得できないため対象外）
+function extractDataUrls(html: string, text: string): string[] {
+  const urls: string[] = [];
+  if (html) {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    for (const img of Array.from(doc.querySelectorAll('img[src]'))) {
+      const src = img.getAttribute('src') ?? '';
+      if (src.startsWith('data:image/')) urls.push(src);
+    }
+  }
+  if (urls.length === 0 && text.trim().startsWith('data:image/')) urls.push(text.trim());
+  return urls;
+}
+
+/**
+ * 貼り付けイベントのデータから画像などのファイルを取り出す
+ * DataTransfer はイベント処理中しか参照できないため、同期的にすべて取り出す
+ * ファイルがない場合のみ、HTML・テキストに含まれる data URL の画像を使う（ブラウザからのコピーでは両方入るため）
+ */
+export function extractPastedFiles(data: DataTransfer): File[] {
+  const now = new Date();
+  const pasted = Array.from(data.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.getAsFile())
+    .filter((file): file is File => file !== null);
+  const files = pasted.length > 0 ? pasted : Array.from(data.files);
+
+  if (files.length > 0) {
+    return files.map((file, i) => (
+      file.type.startsWith('image/') && isGenericName(file.name)
+        ? new File([file], pastedFileName(file.type, i, now), { type: file.type, lastModified: now.getTime() })
+        : file
+    ));
+  }
+
+  return extractDataUrls(data.getData('text/html'), data.getData('text/plain'))
+    .map(dataUrlToBlob)
+    .filter((blob): blob is Blob => blob !== null)
+    .map((blob, i) => new File([blob], pastedFileName(blob.type, i, now), { type: blob.type, lastModified: now.getTime() }));
+}
+
+function canWriteType(type: string): boolean {
+  if (type === CLIPBOARD_IMAGE_TYPE) return true;
+  const supports = (ClipboardItem as ClipboardItemStatic).supports;
+  // supports がないブラウザは PNG 以外を書き込めない
+  return supports ? supports(type) : false;
+}
+
+async function convertToPng(blob: Blob): Promise<Blob> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(blob);
+  } catch {
+    throw new Error(`${blob.type} はこのブラウザで読み込めないため、PNG に変換してコピーできません`);
+  }
+  try {
+    const { canvas, ctx } = createCanvas(bitmap.width, bitmap.height);
+    ctx.drawImage(bitmap, 0, 0);
+    const png = await canvasToBlob(canvas, CLIPBOARD_IMAGE_TYPE);
+    if (!png) throw new Error('PNG への変換に失敗しました');
+    return png;
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * 画像をクリップボードへコピー
+ * ブラウザが対応していない形式（多くのブラウザは PNG のみ）は PNG に変換してコピーする
+ * Safari はユーザー操作の直後に write を呼ぶ必要があるため、変換は ClipboardItem に Promise で渡す
+ */
+export async function copyImageToClipboard(blob: Blob): Promise<CopyResult> {
+  if (!navigator.clipboard?.write || typeof ClipboardItem === 'undefined') {
+    throw new Error('このブラウザは画像のコピーに対応していません');
+  }
+  if (canWriteType(blob.type)) {
+    await navigator.clipboard.write([new ClipboardItem({ [blob.type]: blob })]);
+    return { type: blob.type };
+  }
+  await navigator.clipboard.write([new ClipboardItem({ [CLIPBOARD_IMAGE_TYPE]: convertToPng(blob) })]);
+  return {
+    type: CLIPBOARD_IMAGE_TYPE,
+    convertedReason: `このブラウザのクリップボードは ${blob.type} に対応していないため、PNG に変換してコピーしました`,
+  };
+}
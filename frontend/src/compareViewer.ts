@@ -0,0 +1,357 @@
+/**
+ * 比較ビューア
+ * 元画像と変換後の画像を全画面で重ね、分割スライダー・同期したパン / ズーム・差分ヒートマップで比較する
+ */
+
+import { canvasToBlob, createCanvas, getContext2D } from './canvas.js';
+import { applyEdit, isIdentityEdit, type ImageEdit } from './edit.js';
+
+export type CompareMode = 'split' | 'original' | 'processed' | 'diff';
+
+export type CompareSource = {
+  title: string;
+  originalUrl: string;
+  processedUrl: string;
+  // 変換時に適用した回転・反転・切り抜き（元画像にも同じ編集を適用して比較する）
+  edit?: ImageEdit;
+};
+
+// ズーム倍率の上限（800%）
+const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.25;
+
+const MODE_LABELS: Record<CompareMode, string> = {
+  split: '分割',
+  original: '元画像',
+  processed: '変換後',
+  diff: '差分',
+};
+
+async function loadImage(url: string): Promise<HTMLImageElement> {
+  const img = new Image();
+  img.decoding = 'async';
+  img.src = url;
+  await img.decode();
+  return img;
+}
+
+/**
+ * 編集を適用した元画像の Blob URL を生成（不要になったら revoke する）
+ */
+async function createEditedUrl(url: string, edit: ImageEdit): Promise<string> {
+  const img = await loadImage(url);
+  const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  const blob = await canvasToBlob(applyEdit(canvas, edit), 'image/png');
+  if (!blob) throw new Error('編集を適用した元画像を生成できませんでした');
+  return URL.createObjectURL(blob);
+}
+
+/**
+ * 画素ごとの誤差（RGB の差の最大値）をヒートマップ画像に変換
+ * 誤差 0 は黒、小さい誤差は青、大きくなるにつれ赤 → 黄で表示する
+ */
+export function differenceHeatmap(original: ImageData, processed: ImageData): ImageData {
+  const { width, height } = processed;
+  const out = new Uint8ClampedArray(width * height * 4);
+  const a = original.data;
+  const b = processed.data;
+  for (let i = 0; i < out.length; i += 4) {
+    const diff = Math.max(Math.abs(a[i] - b[i]), Math.abs(a[i + 1] - b[i + 1]), Math.abs(a[i + 2] - b[i + 2]));
+    // 小さな誤差も見えるよう平方根で持ち上げる
+    const t = Math.sqrt(diff / 255) * 3;
+    out[i] = Math.min(1, Math.max(0, t - 1)) * 255;
+    out[i + 1] = Math.min(1, Math.max(0, t - 2)) * 255;
+    out[i + 2] = (t < 1 ? t : Math.max(0, 2 - t)) * 255;
+    out[i + 3] = 255;
+  }
+  return new ImageData(out, width, height);
+}
+
+/**
+ * 比較ビューア本体
+ * index.html の #compareViewer 内の要素を操作する
+ */
+export class CompareViewer {
+  private readonly stage: HTMLElement;
+  private readonly layer: HTMLElement;
+  private readonly originalImg: HTMLImageElement;
+  private readonly processedImg: HTMLImageElement;
+  private readonly diffCanvas: HTMLCanvasElement;
+  private readonly divider: HTMLElement;
+  private readonly titleEl: HTMLElement;
+  private readonly zoomLabel: HTMLElement;
+
+  private mode: CompareMode = 'split';
+  private split = 0.5;
+  private zoom = 1;
+  private fitZoom = 1;
+  private panX = 0;
+  private panY = 0;
+  private imageWidth = 0;
+  private imageHeight = 0;
+  private diffReady: Promise<void> | null = null;
+  private source: CompareSource | null = null;
+  // 比較する元画像の URL（編集の適用が終わると確定する。別の画像を開いた場合は null）
+  private originalReady: Promise<string | null> = Promise.resolve(null);
+  // 編集を適用するため生成した URL（閉じるときに revoke）
+  private editedUrl: string | null = null;
+  private returnFocus: HTMLElement | null = null;
+
+  constructor(private readonly root: HTMLElement) {
+    const part = <T extends HTMLElement>(selector: string): T => {
+      const el = root.querySelector(selector);
+      if (!el) throw new Error(`Required element not found: ${selector}`);
+      return el as T;
+    };
+    this.stage = part('.compare-stage');
+    this.layer = part('.compare-layer');
+    this.originalImg = part('.compare-original');
+    this.processedImg = part('.compare-processed');
+    this.diffCanvas = part('.compare-diff');
+    this.divider = part('.compare-divider');
+    this.titleEl = part('.compare-title');
+    this.zoomLabel = part('.compare-zoom');
+
+    root.querySelectorAll<HTMLButtonElement>('[data-mode]').forEach(btn => {
+      btn.addEventListener('click', () => this.setMode(btn.dataset.mode as CompareMode));
+    });
+    part('[data-action="zoom-in"]').addEventListener('click', () => this.zoomAt(this.zoom * ZOOM_STEP));
+    part('[data-action="zoom-out"]').addEventListener('click', () => this.zoomAt(this.zoom / ZOOM_STEP));
+    part('[data-action="zoom-fit"]').addEventListener('click', () => this.fit());
+    part('[data-action="zoom-actual"]').addEventListener('click', () => this.zoomAt(1));
+    part('[data-action="close"]').addEventListener('click', () => this.close());
+
+    this.setupPointer();
+    this.stage.addEventListener('wheel', (e) => {
+      e.preventDefault();
+      const rect = this.stage.getBoundingClientRect();
+      const factor = e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP;
+      this.zoomAt(this.zoom * factor, e.clientX - rect.left, e.clientY - rect.top);
+    }, { passive: false });
+    root.addEventListener('keydown', (e) => this.onKeyDown(e));
+    window.addEventListener('resize', () => {
+      if (!this.root.hidden) this.fit();
+    });
+  }
+
+  async open(source: CompareSource) {
+    this.source = source;
+    this.diffReady = null;
+    this.returnFocus = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    this.titleEl.textContent = source.title;
+    this.revokeEditedUrl();
+    this.originalImg.removeAttribute('src');
+    this.processedImg.src = source.processedUrl;
+    this.root.hidden = false;
+    this.root.focus();
+
+    // 差分画像の生成もこの URL が確定するのを待つ
+    const originalReady = this.prepareOriginal(source);
+    this.originalReady = originalReady;
+    try {
+      const originalUrl = await originalReady;
+      if (!originalUrl) return;
+      this.originalImg.src = originalUrl;
+      await Promise.all([this.originalImg.decode(), this.processedImg.decode()]);
+    } catch (err) {
+      // 読み込み中に閉じられた、または別の画像を開いた場合（src の削除で decode が失敗する）は何もしない
+      if (this.source !== source) return;
+      console.warn('比較用画像の読み込みに失敗しました:', err);
+      this.close();
+      return;
+    }
+    if (this.source !== source) return;
+    // 変換後の画素を基準に表示し、リサイズ済みの場合は元画像を同じ大きさに合わせる
+    this.imageWidth = this.processedImg.naturalWidth;
+    this.imageHeight = this.processedImg.naturalHeight;
+    this.layer.style.width = `${this.imageWidth}px`;
+    this.layer.style.height = `${this.imageHeight}px`;
+    this.split = 0.5;
+    this.setMode(this.mode);
+    this.fit();
+  }
+
+  close() {
+    this.root.hidden = true;
+    this.source = null;
+    this.originalImg.removeAttribute('src');
+    this.processedImg.removeAttribute('src');
+    this.revokeEditedUrl();
+    this.returnFocus?.focus();
+  }
+
+  /**
+   * 比較する元画像の URL を用意する
+   * 編集した画像は、変換後と同じ向き・範囲にした元画像と比較する（生成中に閉じられた、または別の画像を開いた場合は null）
+   */
+  private async prepareOriginal(source: CompareSource): Promise<string | null> {
+    if (!source.edit || isIdentityEdit(source.edit)) return source.originalUrl;
+    const editedUrl = await createEditedUrl(source.originalUrl, source.edit);
+    if (this.source !== source) {
+      URL.revokeObjectURL(editedUrl);
+      return null;
+    }
+    this.editedUrl = editedUrl;
+    return editedUrl;
+  }
+
+  private revokeEditedUrl() {
+    if (this.editedUrl) URL.revokeObjectURL(this.editedUrl);
+    this.editedUrl = null;
+  }
+
+  setMode(mode: CompareMode) {
+    this.mode = mode;
+    this.root.querySelectorAll<HTMLButtonElement>('[data-mode]').forEach(btn => {
+      btn.setAttribute('aria-pressed', String(btn.dataset.mode === mode));
+    });
+    this.stage.dataset.mode = mode;
+    this.stage.setAttribute('aria-label', `比較表示: ${MODE_LABELS[mode]}`);
+    if (mode === 'diff') {
+      this.ensureDiff().catch((err) => {
+        console.warn('差分画像の生成に失敗しました:', err);
+      });
+    }
+    this.render();
+  }
+
+  private ensureDiff(): Promise<void> {
+    if (!this.diffReady && this.source) {
+      const { originalReady, source } = this;
+      const { processedUrl } = source;
+      this.diffReady = (async () => {
+        const originalUrl = await originalReady;
+        if (!originalUrl) return;
+        const [original, processed] = await Promise.all([loadImage(originalUrl), loadImage(processedUrl)]);
+        const width = processed.naturalWidth;
+        const height = processed.naturalHeight;
+        const a = createCanvas(width, height);
+        a.ctx.drawImage(original, 0, 0, width, height);
+        const b = createCanvas(width, height);
+        b.ctx.drawImage(processed, 0, 0);
+        const heatmap = differenceHeatmap(
+          a.ctx.getImageData(0, 0, width, height),
+          b.ctx.getImageData(0, 0, width, height)
+        );
+        // 生成中に閉じられた、または別の画像を開いた場合は描画しない
+        if (this.source !== source) return;
+        this.diffCanvas.width = width;
+        this.diffCanvas.height = height;
+        getContext2D(this.diffCanvas).putImageData(heatmap, 0, 0);
+      })();
+    }
+    return this.diffReady ?? Promise.resolve();
+  }
+
+  private fit() {
+    const rect = this.stage.getBoundingClientRect();
+    if (!this.imageWidth || !this.imageHeight) return;
+    this.fitZoom = Math.min(1, rect.width / this.imageWidth, rect.height / this.imageHeight);
+    this.zoom = this.fitZoom;
+    this.panX = (rect.width - this.imageWidth * this.zoom) / 2;
+    this.panY = (rect.height - this.imageHeight * this.zoom) / 2;
+    this.render();
+  }
+
+  /**
+   * 指定倍率にズーム（cx, cy はステージ内の基準点。省略時は中央）
+   */
+  private zoomAt(next: number, cx?: number, cy?: number) {
+    const rect = this.stage.getBoundingClientRect();
+    const x = cx ?? rect.width / 2;
+    const y = cy ?? rect.height / 2;
+    const zoom = Math.min(MAX_ZOOM, Math.max(this.fitZoom, next));
+    // 基準点の下にある画素が動かないようにパンを補正
+    this.panX = x - ((x - this.panX) / this.zoom) * zoom;
+    this.panY = y - ((y - this.panY) / this.zoom) * zoom;
+    this.zoom = zoom;
+    this.render();
+  }
+
+  private render() {
+    this.layer.style.transform = `translate(${this.panX}px, ${this.panY}px) scale(${this.zoom})`;
+    this.zoomLabel.textContent = `${Math.round(this.zoom * 100)}%`;
+
+    const stageWidth = this.stage.clientWidth;
+    const splitX = stageWidth * this.split;
+    this.divider.style.left = `${splitX}px`;
+    this.divider.hidden = this.mode !== 'split';
+
+    // 分割線より右側だけ変換後を見せる（ステージ座標を画像座標に変換して切り抜く）
+    const clipLeft = Math.max(0, (splitX - this.panX) / this.zoom);
+    this.processedImg.style.clipPath = this.mode === 'split' ? `inset(0 0 0 ${clipLeft}px)` : '';
+    this.processedImg.hidden = this.mode === 'original' || this.mode === 'diff';
+    this.originalImg.hidden = this.mode === 'processed' || this.mode === 'diff';
+    this.diffCanvas.hidden = this.mode !== 'diff';
+  }
+
+  private setupPointer() {
+    let drag: { kind: 'pan' | 'split'; x: number; y: number; panX: number; panY: number } | null = null;
+
+    this.stage.addEventListener('pointerdown', (e) => {
+      const onDivider = e.target instanceof Node && this.divider.contains(e.target);
+      drag = { kind: onDivider ? 'split' : 'pan', x: e.clientX, y: e.clientY, panX: this.panX, panY: this.panY };
+      this.stage.setPointerCapture(e.pointerId);
+    });
+    this.stage.addEventListener('pointermove', (e) => {
+      if (!drag) return;
+      if (drag.kind === 'split') {
+        const rect = this.stage.getBoundingClientRect();
+        this.split = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+      } else {
+        this.panX = drag.panX + (e.clientX - drag.x);
+        this.panY = drag.panY + (e.clientY - drag.y);
+      }
+      this.render();
+    });
+    const end = (e: PointerEvent) => {
+      if (!drag) return;
+      drag = null;
+      this.stage.releasePointerCapture(e.pointerId);
+    };
+    this.stage.addEventListener('pointerup', end);
+    this.stage.addEventListener('pointercancel', end);
+  }
+
+  private onKeyDown(e: KeyboardEvent) {
+    switch (e.key) {
+      case 'Escape':
+        this.close();
+        break;
+      case '1':
+      case 'o':
+        this.setMode('original');
+        break;
+      case '2':
+      case 'p':
+        this.setMode('processed');
+        break;
+      case '3':
+      case 's':
+        this.setMode('split');
+        break;
+      case '4':
+      case 'd':
+        this.setMode('diff');
+        break;
+      case ' ':
+        // 元画像と変換後を交互に切り替える
+        if (!e.repeat) this.setMode(this.mode === 'original' ? 'processed' : 'original');
+        break;
+      case '+':
+      case '=':
+        this.zoomAt(this.zoom * ZOOM_STEP);
+        break;
+      case '-':
+        this.zoomAt(this.zoom / ZOOM_STEP);
+        break;
+      case '0':
+        this.fit();
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * 画像編集モジュール
+ * 回転・反転・切り抜きを元画像を変更しないパラメータとして持ち、パイプラインでエンコード前に適用する
+ */
+
+import { createCanvas, type AnyCanvas } from './canvas.js';
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+/**
+ * 切り抜き範囲（回転・反転後の画像に対する 0〜1 の割合）
+ * 割合で持つため、リサイズや目標サイズによる縮小とは独立して適用できる
+ */
+export type CropRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type ImageEdit = {
+  // 時計回りの回転角
+  rotate: Rotation;
+  // 回転後の見た目に対する左右・上下反転
+  flipH: boolean;
+  flipV: boolean;
+  crop?: CropRect;
+  // 編集画面で選んだ縦横比（次回開いたときに復元する）
+  aspect?: string;
+};
+
+export const DEFAULT_EDIT: ImageEdit = { rotate: 0, flipH: false, flipV: false };
+
+export const ASPECT_PRESETS: { id: string; label: string; ratio?: number }[] = [
+  { id: 'free', label: '自由' },
+  { id: '1:1', label: '1:1', ratio: 1 },
+  { id: '16:9', label: '16:9', ratio: 16 / 9 },
+  { id: '4:3', label: '4:3', ratio: 4 / 3 },
+  { id: '3:2', label: '3:2', ratio: 3 / 2 },
+  { id: '4:5', label: '4:5', ratio: 4 / 5 },
+  { id: '9:16', label: '9:16', ratio: 9 / 16 },
+];
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+// これより小さな差は切り抜きなしとみなす（ドラッグの端数で 1px 欠けないように）
+const CROP_EPSILON = 0.001;
+
+export function isFullCrop(crop?: CropRect): boolean {
+  return !crop || (
+    crop.x < CROP_EPSILON && crop.y < CROP_EPSILON &&
+    crop.width > 1 - CROP_EPSILON && crop.height > 1 - CROP_EPSILON
+  );
+}
+
+export function isIdentityEdit(edit?: ImageEdit): boolean {
+  return !edit || (edit.rotate === 0 && !edit.flipH && !edit.flipV && isFullCrop(edit.crop));
+}
+
+export function rotatedSize(width: number, height: number, rotate: Rotation): { width: number; height: number } {
+  return rotate === 90 || rotate === 270 ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * 切り抜き範囲を画素単位に変換（最低 1px）
+ */
+export function cropToPixels(crop: CropRect, width: number, height: number) {
+  const x = Math.min(width - 1, Math.round(crop.x * width));
+  const y = Math.min(height - 1, Math.round(crop.y * height));
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(width - x, Math.round(crop.width * width))),
+    height: Math.max(1, Math.min(height - y, Math.round(crop.height * height))),
+  };
+}
+
+/**
+ * 画像の範囲に収まる、指定した縦横比（幅 / 高さ、画素単位）の最大の切り抜き範囲
+ * center を省略すると画像の中央に置く
+ */
+export function fitAspect(ratio: number, width: number, height: number, center = { x: 0.5, y: 0.5 }): CropRect {
+  // 割合での縦横比（画素の縦横比を画像の縦横比で割る）
+  const r = (ratio * height) / width;
+  let w = Math.min(1, r);
+  let h = w / r;
+  if (h > 1) {
+    h = 1;
+    w = r;
+  }
+  return {
+    x: Math.min(1 - w, Math.max(0, center.x - w / 2)),
+    y: Math.min(1 - h, Math.max(0, center.y - h / 2)),
+    width: w,
+    height: h,
+  };
+}
+
+/**
+ * 90° 回転・反転に合わせて切り抜き範囲を移す（見えている範囲を保つ）
+ */
+export function rotateCrop(crop: CropRect, clockwise: boolean): CropRect {
+  return clockwise
+    ? { x: 1 - (crop.y + crop.height), y: crop.x, width: crop.height, height: crop.width }
+    : { x: crop.y, y: 1 - (crop.x + crop.width), width: crop.height, height: crop.width };
+}
+
+export function flipCrop(crop: CropRect, horizontal: boolean): CropRect {
+  return horizontal
+    ? { ...crop, x: 1 - (crop.x + crop.width) }
+    : { ...crop, y: 1 - (crop.y + crop.height) };
+}
+
+/**
+ * 回転・反転した画像を描画（切り抜きは含まない）
+ */
+export function transformCanvas(source: AnyCanvas, edit: Pick<ImageEdit, 'rotate' | 'flipH' | 'flipV'>): AnyCanvas {
+  if (edit.rotate === 0 && !edit.flipH && !edit.flipV) return source;
+  const { width, height } = rotatedSize(source.width, source.height, edit.rotate);
+  const { canvas, ctx } = createCanvas(width, height);
+  // 回転してから、回転後の見た目に対して反転する
+  ctx.translate(width / 2, height / 2);
+  ctx.scale(edit.flipH ? -1 : 1, edit.flipV ? -1 : 1);
+  ctx.rotate((edit.rotate * Math.PI) / 180);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+}
+
+/**
+ * 回転 → 反転 → 切り抜きの順に適用
+ * 編集がない場合は元のキャンバスをそのまま返す
+ */
+export function applyEdit(source: AnyCanvas, edit?: ImageEdit): AnyCanvas {
+  if (!edit || isIdentityEdit(edit)) return source;
+  const transformed = transformCanvas(source, edit);
+  if (isFullCrop(edit.crop)) return transformed;
+  const rect = cropToPixels(edit.crop!, transformed.width, transformed.height);
+  const { canvas, ctx } = createCanvas(rect.width, rect.height);
+  ctx.drawImage(transformed, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+  return canvas;
+}
+
+/**
+ * 一覧に表示する編集内容の要約（例: 切り抜き（16:9）・90° 回転）
+ */
+export function describeEdit(edit: ImageEdit): string {
+  const parts: string[] = [];
+  if (!isFullCrop(edit.crop)) {
+    const aspect = ASPECT_PRESETS.find(p => p.id === edit.aspect && p.ratio);
+    parts.push(`切り抜き${aspect ? `（${aspect.label}）` : ''}`);
+  }
+  if (edit.rotate !== 0) parts.push(`${edit.rotate}° 回転`);
+  if (edit.flipH) parts.push('左右反転');
+  if (edit.flipV) parts.push('上下反転');
+  return parts.join('・');
+}
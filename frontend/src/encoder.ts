@@ -0,0 +1,272 @@
+/**
+ * エンコードモジュール
+ * 非対応形式・エンコード失敗時のフォールバックと、目標サイズに合わせた品質探索を提供
+ * メインスレッドと Web Worker の両方から利用する
+ */
+
+import {
+  browserCapabilities,
+  type EncoderBackendId,
+  type EncoderPreference,
+  type OutputFormat,
+} from './browserCapabilities.js';
+import { canvasToBlob, getContext2D, type AnyCanvas } from './canvas.js';
+import { formatBytes, getMimeType } from './formatUtils.js';
+import { encodeIndexedPng } from './pngWriter.js';
+import { quantizeImage, type PaletteOptions } from './quantize.js';
+import { resizeCanvas } from './resize.js';
+import { DEFAULT_MATTE, flattenAlpha, hasTransparency, supportsAlpha } from './transparency.js';
+import {
+  DEFAULT_CODEC_OPTIONS,
+  WASM_ENCODER_LABELS,
+  encodeWithWasm,
+  optimisePngWithWasm,
+  type CodecOptions,
+} from './wasmEncoders.js';
+
+export type TargetSizeOptions = {
+  maxBytes: number;
+  // 最低品質でも収まらない場合に縮小を許可
+  allowDownscale: boolean;
+};
+
+export type EncoderOptions = {
+  preference: EncoderPreference;
+  codec: CodecOptions;
+  // アルファを保存できない形式で出力する場合の背景色（未指定は白）
+  matte?: string;
+  // 指定時は PNG を減色してパレット PNG で出力
+  palette?: PaletteOptions;
+};
+
+export const DEFAULT_ENCODER_OPTIONS: EncoderOptions = {
+  preference: 'auto',
+  codec: DEFAULT_CODEC_OPTIONS,
+};
+
+export type EncodeResult = Awaited<ReturnType<typeof encodeCanvas>>;
+
+// 品質スライダーの範囲と揃える
+export const MIN_QUALITY = 0.1;
+export const MAX_QUALITY = 1;
+// 二分探索の回数（1回ごとに探索幅が半分になる）
+const QUALITY_SEARCH_STEPS = 7;
+const MAX_DOWNSCALE_ATTEMPTS = 8;
+
+/**
+ * キャンバスを指定形式でエンコード
+ * Canvas 非対応の形式は WASM エンコーダを優先し、それも使えない場合やエンコード失敗時は WebP / JPEG へフォールバックする
+ * 実際の出力形式がアルファを保存できない場合は、透明部分を背景色で塗りつぶしてからエンコードする
+ */
+export async function encodeCanvas(
+  canvas: AnyCanvas, 
+  format: OutputFormat, 
+  quality: number,
+  encoder: EncoderOptions = DEFAULT_ENCODER_OPTIONS
+): Promise<{
+  blob: Blob;
+  actualFormat: OutputFormat;
+  backend: EncoderBackendId;
+  usedFallback?: { requestedFormat: OutputFormat; reason: string };
+  // 透明部分を背景色で塗りつぶしたか
+  alphaFlattened: boolean;
+  // 減色した場合のパレットの色数
+  paletteColors?: number;
+}> {
+  // 塗りつぶしたキャンバスは JPEG へのフォールバックでも使い回す（透明な画素がなければ null）
+  let flattened: AnyCanvas | null | undefined;
+  const sourceFor = (target: OutputFormat): AnyCanvas => {
+    if (supportsAlpha(target)) return canvas;
+    if (flattened === undefined) {
+      flattened = hasTransparency(canvas) ? flattenAlpha(canvas, encoder.matte ?? DEFAULT_MATTE) : null;
+    }
+    return flattened ?? canvas;
+  };
+  const done = (result: {
+    blob: Blob;
+    actualFormat: OutputFormat;
+    backend: EncoderBackendId;
+    usedFallback?: { requestedFormat: OutputFormat; reason: string };
+    paletteColors?: number;
+  }) => {
+    const alphaFlattened = !supportsAlpha(result.actualFormat) && Boolean(flattened);
+    const usedFallback = result.usedFallback && alphaFlattened
+      ? { ...result.usedFallback, reason: `${result.usedFallback.reason}（透過情報は失われ、背景色で塗りつぶしました）` }
+      : result.usedFallback;
+    return { ...result, usedFallback, alphaFlattened };
+  };
+
+  if (format === 'png' && encoder.palette) {
+    return done(await encodePalettePng(canvas, encoder.palette, encoder));
+  }
+
+  let wasmFailed = false;
+  if (await browserCapabilities.getEncoderBackend(format, encoder.preference) === 'wasm') {
+    try {
+      const blob = await encodeWithWasm(sourceFor(format), format, quality, encoder.codec);
+      return done({ blob, actualFormat: format, backend: 'wasm' });
+    } catch (err) {
+      // WASM の読み込み失敗（CSP・メモリ不足など）時は Canvas の経路で続行
+      console.warn(`${WASM_ENCODER_LABELS[format]} でのエンコードに失敗しました:`, err);
+      wasmFailed = true;
+    }
+  }
+
+  // 指定形式が対応しているかチェック
+  const isSupported = await browserCapabilities.isFormatSupported(format);
+  let actualFormat = format;
+  let usedFallback: { requestedFormat: OutputFormat; reason: string } | undefined;
+  
+  if (!isSupported) {
+    // フォールバック形式を決定
+    actualFormat = await browserCapabilities.getBestFallbackFormat(format);
+    usedFallback = {
+      requestedFormat: format,
+      reason: wasmFailed
+        ? `${format.toUpperCase()}未対応かつ${WASM_ENCODER_LABELS[format]}（WASM）が使用できないため${actualFormat.toUpperCase()}で出力`
+        : `${format.toUpperCase()}未対応のため${actualFormat.toUpperCase()}で出力`
+    };
+  }
+  
+  const type = getMimeType(actualFormat);
+  
+  try {
+    const blob: Blob | null = await canvasToBlob(sourceFor(actualFormat), type, quality);
+    
+    if (!blob) {
+      throw new Error(`Failed to encode image as ${actualFormat}`);
+    }
+    
+    // エンコード結果の検証
+    if (blob.type !== type) {
+      // 予期しない形式の場合、さらにフォールバックを試行
+      if (actualFormat !== 'jpeg') {
+        const fallbackBlob: Blob | null = await canvasToBlob(sourceFor('jpeg'), 'image/jpeg', quality);
+        
+        if (fallbackBlob && fallbackBlob.type === 'image/jpeg') {
+          return done({
+            blob: fallbackBlob,
+            actualFormat: 'jpeg',
+            backend: 'canvas',
+            usedFallback: {
+              requestedFormat: format,
+              reason: `${actualFormat.toUpperCase()}エンコード失敗のためJPEGで出力`
+            }
+          });
+        }
+      }
+      
+      throw new Error(`エンコード結果の形式が不正です: 期待=${type}, 実際=${blob.type}`);
+    }
+    
+    return done({ blob, actualFormat, backend: 'canvas', usedFallback });
+    
+  } catch (err) {
+    if (actualFormat === 'jpeg') {
+      // JPEG でも失敗した場合は諦める
+      throw err;
+    }
+    
+    // JPEG でリトライ
+    try {
+      const fallbackBlob: Blob | null = await canvasToBlob(sourceFor('jpeg'), 'image/jpeg', quality);
+      
+      if (!fallbackBlob) {
+        throw new Error('JPEG エンコードも失敗しました', { cause: err });
+      }
+      
+      return done({
+        blob: fallbackBlob,
+        actualFormat: 'jpeg',
+        backend: 'canvas',
+        usedFallback: {
+          requestedFormat: format,
+          reason: `${actualFormat.toUpperCase()}エンコード失敗のためJPEGで出力`
+        }
+      });
+    } catch {
+      throw new Error(`画像のエンコードに失敗しました: ${err instanceof Error ? err.message : 'Unknown error'}`, { cause: err });
+    }
+  }
+}
+
+/**
+ * 減色してパレット PNG で書き出す
+ * WASM エンコーダを使う設定の場合は、書き出した PNG をさらに oxipng で最適化する
+ */
+async function encodePalettePng(canvas: AnyCanvas, palette: PaletteOptions, encoder: EncoderOptions) {
+  const imageData = getContext2D(canvas).getImageData(0, 0, canvas.width, canvas.height);
+  const quantized = quantizeImage(imageData, palette);
+  let blob = encodeIndexedPng(quantized);
+  let backend: EncoderBackendId = 'canvas';
+  if (await browserCapabilities.getEncoderBackend('png', encoder.preference) === 'wasm') {
+    try {
+      blob = await optimisePngWithWasm(blob, encoder.codec);
+      backend = 'wasm';
+    } catch (err) {
+      console.warn(`${WASM_ENCODER_LABELS.png} での最適化に失敗しました:`, err);
+    }
+  }
+  return { blob, actualFormat: 'png' as const, backend, paletteColors: quantized.palette.length / 4 };
+}
+
+/**
+ * 目標サイズ以下に収まる最大の品質を二分探索してエンコード
+ * 最低品質でも収まらない場合は、許可されていれば縮小して再試行する
+ * エンコードを繰り返すため、signal が中断されたら次のエンコードの前に打ち切る
+ */
+export async function encodeCanvasToTargetSize(
+  canvas: AnyCanvas,
+  format: OutputFormat,
+  target: TargetSizeOptions,
+  encoder: EncoderOptions = DEFAULT_ENCODER_OPTIONS,
+  signal?: AbortSignal
+): Promise<{ result: EncodeResult; quality?: number; canvas: AnyCanvas }> {
+  let current = canvas;
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    const lowest = await encodeCanvas(current, format, MIN_QUALITY, encoder);
+    if (lowest.blob.size <= target.maxBytes) {
+      // PNG は品質が効かないため探索しない
+      if (lowest.actualFormat === 'png') return { result: lowest, canvas: current };
+
+      let best = lowest;
+      let bestQuality = MIN_QUALITY;
+      let lo = MIN_QUALITY;
+      let hi = MAX_QUALITY;
+      for (let i = 0; i < QUALITY_SEARCH_STEPS; i++) {
+        signal?.throwIfAborted();
+        const mid = (lo + hi) / 2;
+        const result = await encodeCanvas(current, format, mid, encoder);
+        if (result.blob.size <= target.maxBytes) {
+          best = result;
+          bestQuality = mid;
+          lo = mid;
+        } else {
+          hi = mid;
+        }
+      }
+      return { result: best, quality: Math.round(bestQuality * 100) / 100, canvas: current };
+    }
+
+    if (!target.allowDownscale) {
+      throw new Error(
+        `目標サイズ ${formatBytes(target.maxBytes)} に収まりません（最低品質 ${MIN_QUALITY} でも ${formatBytes(lowest.blob.size)}）`
+      );
+    }
+    if (attempt >= MAX_DOWNSCALE_ATTEMPTS) {
+      throw new Error(
+        `縮小しても目標サイズ ${formatBytes(target.maxBytes)} に収まりません（${current.width} × ${current.height}px で ${formatBytes(lowest.blob.size)}）`
+      );
+    }
+
+    // サイズは画素数にほぼ比例するため、面積比の平方根で縮小率を見積もる
+    const scale = Math.min(0.95, Math.max(0.5, Math.sqrt(target.maxBytes / lowest.blob.size) * 0.95));
+    current = resizeCanvas(current, {
+      mode: 'percent',
+      percent: scale * 100,
+      fit: 'contain',
+      withoutEnlargement: true,
+    });
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * 入力ファイル収集モジュール
+ * ドロップされたフォルダを再帰的にたどり、ZIP は展開して、画像ファイルをフォルダ内の相対パス付きで集める
+ */
+
+import { Unzip, UnzipInflate } from 'fflate';
+
+/**
+ * 収集したファイルと、投入したフォルダを基準とした相対パス（例: "shots/2024/photo.jpg"）
+ * 単体のファイルは relativePath がファイル名のみになる
+ */
+export type CollectedFile = {
+  file: File;
+  relativePath: string;
+};
+
+export type CollectResult = {
+  files: CollectedFile[];
+  // 画像ではないためスキップしたファイルの相対パス
+  skipped: string[];
+  // 展開できなかった ZIP などのエラー
+  errors: string[];
+};
+
+// ZIP 爆弾対策: 1 つのアーカイブから展開するエントリ数と展開後の合計サイズの上限
+export const MAX_ARCHIVE_ENTRIES = 2000;
+export const MAX_ARCHIVE_UNCOMPRESSED_BYTES = 1024 * 1024 * 1024;
+
+// MIME タイプが空になりやすい形式も拡張子で判定する
+const IMAGE_EXTENSIONS = /\.(jpe?g|jfif|png|apng|webp|avif|gif|bmp|svg|ico|tiff?)$/i;
+
+// OS が自動生成する隠しファイルは画像以外としても数えない
+const IGNORED_NAMES = new Set(['.DS_Store', 'Thumbs.db', 'desktop.ini']);
+
+// ZIP から取り出したファイルには MIME タイプがないため拡張子から補う（SVG は MIME がないと表示できない）
+const MIME_BY_EXTENSION: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  jfif: 'image/jpeg',
+  png: 'image/png',
+  apng: 'image/apng',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+  ico: 'image/x-icon',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+};
+
+export function isImageFile(file: File): boolean {
+  return file.type.startsWith('image/') || IMAGE_EXTENSIONS.test(file.name);
+}
+
+export function isZipFile(file: File): boolean {
+  return /\.zip$/i.test(file.name) || file.type === 'application/zip' || file.type === 'application/x-zip-compressed';
+}
+
+/**
+ * 相対パスのフォルダ部分（末尾の / を含む。フォルダがない場合は空文字）
+ */
+export function getDirectory(relativePath: string): string {
+  const slash = relativePath.lastIndexOf('/');
+  return slash >= 0 ? relativePath.slice(0, slash + 1) : '';
+}
+
+/**
+ * ZIP エントリ名を安全な相対パスに正規化
+ * フォルダ・macOS のリソースフォーク・隠しファイルは null、".." などの区切りは取り除く
+ */
+function normalizeEntryPath(name: string): string | null {
+  if (name.endsWith('/')) return null;
+  const segments = name.split(/[\\/]+/).filter(seg => seg !== '' && seg !== '.' && seg !== '..');
+  if (segments.length === 0 || segments[0] === '__MACOSX') return null;
+  const base = segments[segments.length - 1];
+  if (base.startsWith('._') || IGNORED_NAMES.has(base)) return null;
+  return segments.join('/');
+}
+
+/**
+ * ZIP を展開し、画像のエントリを「アーカイブ名/アーカイブ内のパス」で追加
+ * 宣言サイズは偽装できるため、実際に展開したバイト数で上限を判定して打ち切る
+ */
+async function expandArchive(archive: CollectedFile, result: CollectResult): Promise<void> {
+  const base = archive.relativePath.replace(/\.zip$/i, '');
+  const files: CollectedFile[] = [];
+  const skipped: string[] = [];
+  // 展開途中のエントリ数（UnzipInflate は push の中で同期的にデータを渡す）
+  let open = 0;
+  let entryCount = 0;
+  let totalBytes = 0;
+  let failure: Error | null = null;
+
+  const unzipper = new Unzip((entry) => {
+    if (failure) return;
+    const path = normalizeEntryPath(entry.name);
+    if (!path) return;
+    if (++entryCount > MAX_ARCHIVE_ENTRIES) {
+      failure = new Error(`ファイル数が上限（${MAX_ARCHIVE_ENTRIES} 件）を超えています`);
+      return;
+    }
+    const relativePath = `${base}/${path}`;
+    const name = path.slice(path.lastIndexOf('/') + 1);
+    if (!IMAGE_EXTENSIONS.test(name)) {
+      skipped.push(relativePath);
+      return;
+    }
+    if (entry.originalSize !== undefined && totalBytes + entry.originalSize > MAX_ARCHIVE_UNCOMPRESSED_BYTES) {
+      failure = new Error(`展開後のサイズが上限（${formatLimit()}）を超えています`);
+      return;
+    }
+
+    const chunks: Uint8Array<ArrayBuffer>[] = [];
+    open++;
+    entry.ondata = (err, chunk, final) => {
+      if (failure) return;
+      if (err) {
+        failure = err;
+        return;
+      }
+      totalBytes += chunk.length;
+      if (totalBytes > MAX_ARCHIVE_UNCOMPRESSED_BYTES) {
+        failure = new Error(`展開後のサイズが上限（${formatLimit()}）を超えています`);
+        entry.terminate();
+        return;
+      }
+      chunks.push(chunk as Uint8Array<ArrayBuffer>);
+      if (final) {
+        open--;
+        const ext = name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+        files.push({ file: new File(chunks, name, { type: MIME_BY_EXTENSION[ext] ?? '' }), relativePath });
+      }
+    };
+    entry.start();
+  });
+  unzipper.register(UnzipInflate);
+
+  const reader = archive.file.stream().getReader();
+  try {
+    while (!failure) {
+      const { done, value } = await reader.read();
+      unzipper.push(value ?? new Uint8Array(0), done);
+      if (done) break;
+    }
+    // 末尾まで読んでも終わらないエントリがある場合は途中で切れている
+    if (!failure && open > 0) failure = new Error('ZIP ファイルが壊れているか、途中で切れています');
+  } catch (err) {
+    failure ??= err instanceof Error ? err : new Error(String(err));
+  } finally {
+    if (failure) await reader.cancel().catch(() => {});
+  }
+
+  if (failure) {
+    result.errors.push(`${archive.relativePath}: ${(failure as Error).message}`);
+    return;
+  }
+  if (entryCount === 0) {
+    result.errors.push(`${archive.relativePath}: ZIP として読み込めるファイルがありません`);
+    return;
+  }
+  result.files.push(...files);
+  result.skipped.push(...skipped);
+}
+
+function formatLimit(): string {
+  return `${Math.round(MAX_ARCHIVE_UNCOMPRESSED_BYTES / 1024 / 1024)} MB`;
+}
+
+async function partition(collected: CollectedFile[]): Promise<CollectResult> {
+  const result: CollectResult = { files: [], skipped: [], errors: [] };
+  for (const item of collected) {
+    if (IGNORED_NAMES.has(item.file.name)) continue;
+    if (isImageFile(item.file)) result.files.push(item);
+    else if (isZipFile(item.file)) await expandArchive(item, result);
+    else result.skipped.push(item.relativePath);
+  }
+  return result;
+}
+
+function readFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+// readEntries は一度に最大 100 件程度しか返さないため、空になるまで繰り返す
+async function readAllEntries(dir: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = dir.createReader();
+  const entries: FileSystemEntry[] = [];
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
+
+async function walkEntry(entry: FileSystemEntry, out: CollectedFile[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await readFile(entry as FileSystemFileEntry);
+    // fullPath は "/フォルダ/ファイル" 形式
+    out.push({ file, relativePath: entry.fullPath.replace(/^\/+/, '') || file.name });
+    return;
+  }
+  if (entry.isDirectory) {
+    const children = await readAllEntries(entry as FileSystemDirectoryEntry);
+    // 名前順に並べ、同じフォルダを投入したときのキューの順序を安定させる
+    children.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    for (const child of children) await walkEntry(child, out);
+  }
+}
+
+/**
+ * ドロップされたファイル・フォルダを収集
+ * Entries API が使えない場合は dataTransfer.files（フォルダは含まれない）で代用する
+ */
+export async function collectFromDataTransfer(dt: DataTransfer): Promise<CollectResult> {
+  // DataTransferItem はイベント処理中しか参照できないため、非同期処理の前にすべて取り出す
+  const entries = Array.from(dt.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.() ?? null);
+  if (entries.length === 0 || entries.some(entry => !entry)) {
+    return collectFromFileList(dt.files);
+  }
+  const collected: CollectedFile[] = [];
+  for (const entry of entries) await walkEntry(entry!, collected);
+  return partition(collected);
+}
+
+/**
+ * <input type="file"> の選択結果を収集（webkitdirectory でのフォルダ選択にも対応）
+ * 共有・ファイルハンドラで受け取ったファイルの配列も同じように扱う
+ */
+export function collectFromFileList(files: FileList | File[] | null): Promise<CollectResult> {
+  const collected = Array.from(files ?? [], file => ({
+    file,
+    relativePath: file.webkitRelativePath || file.name,
+  }));
+  return partition(collected);
+}
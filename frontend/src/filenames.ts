@@ -0,0 +1,97 @@
+/**
+ * 出力ファイル名モジュール
+ * テンプレート（{name} などのトークン）から出力ファイル名を組み立て、重複しない名前に解決する
+ */
+
+export const DEFAULT_FILENAME_TEMPLATE = '{name}';
+
+/**
+ * テンプレートで使えるトークンの値
+ */
+export type FilenameTokens = {
+  // 元ファイル名（拡張子なし）
+  name: string;
+  width?: number;
+  height?: number;
+  // 0〜1 の品質（PNG など品質のない形式では undefined）
+  quality?: number;
+  // 出力形式の拡張子
+  format: string;
+  // キュー内の位置（1 始まり）
+  index: number;
+  // キューの件数（{index} の桁揃えに使う）
+  total: number;
+  // 出力内容のハッシュ（16 進 8 桁）
+  hash8?: string;
+};
+
+export const FILENAME_TOKENS = ['name', 'width', 'height', 'quality', 'format', 'index', 'hash8'] as const;
+
+// Windows / macOS / ZIP で問題になる文字（制御文字は sanitize で別途置換）
+const INVALID_CHARS = /[\\/:*?"<>|]/g;
+
+function sanitize(name: string): string {
+  const printable = Array.from(name, c => (c.charCodeAt(0) < 0x20 ? '_' : c)).join('');
+  return printable.replace(INVALID_CHARS, '_').replace(/^[.\s]+|[.\s]+$/g, '');
+}
+
+/**
+ * テンプレートからファイル名（拡張子付き）を生成
+ * 未知のトークンはそのまま残す
+ */
+export function renderFilename(template: string, tokens: FilenameTokens): string {
+  const values: Record<(typeof FILENAME_TOKENS)[number], string> = {
+    name: tokens.name,
+    width: tokens.width !== undefined ? String(tokens.width) : '',
+    height: tokens.height !== undefined ? String(tokens.height) : '',
+    quality: tokens.quality !== undefined ? String(Math.round(tokens.quality * 100)) : 'lossless',
+    format: tokens.format,
+    index: String(tokens.index).padStart(String(tokens.total).length, '0'),
+    hash8: tokens.hash8 ?? '',
+  };
+  const rendered = (template.trim() || DEFAULT_FILENAME_TEMPLATE).replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? values[key as keyof typeof values] : match
+  );
+  return `${sanitize(rendered) || 'image'}.${tokens.format}`;
+}
+
+/**
+ * 重複するファイル名に連番を付けて一意にする
+ * 大文字・小文字の違いも重複とみなし、先に現れた名前を優先して後続に「 (2)」「 (3)」…を付ける
+ */
+export function resolveCollisions(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map(name => {
+    let candidate = name;
+    if (used.has(candidate.toLowerCase())) {
+      const dot = name.lastIndexOf('.');
+      const base = dot > 0 ? name.slice(0, dot) : name;
+      const ext = dot > 0 ? name.slice(dot) : '';
+      let n = 2;
+      do {
+        candidate = `${base} (${n++})${ext}`;
+      } while (used.has(candidate.toLowerCase()));
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+}
+
+/**
+ * Blob の内容から 16 進 8 桁のハッシュを算出（SHA-256 の先頭 4 バイト）
+ * SubtleCrypto が使えない環境（非セキュアコンテキスト）では FNV-1a で代用する
+ */
+export async function computeHash8(blob: Blob): Promise<string> {
+  const buffer = await blob.arrayBuffer();
+  if (globalThis.crypto?.subtle) {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', buffer));
+    return Array.from(digest.subarray(0, 4), b => b.toString(16).padStart(2, '0')).join('');
+  }
+  const bytes = new Uint8Array(buffer);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
@@ -0,0 +1,48 @@
+/**
+ * 形式・サイズ表示まわりの共通ヘルパー
+ */
+
+import type { OutputFormat } from './browserCapabilities.js';
+
+export function getMimeType(format: OutputFormat): string {
+  return format === 'webp'
+    ? 'image/webp'
+    : format === 'jpeg'
+    ? 'image/jpeg'
+    : format === 'png'
+    ? 'image/png'
+    : 'image/avif';
+}
+
+export function getFormatFromMime(mimeType: string): OutputFormat {
+  return mimeType === 'image/jpeg'
+    ? 'jpeg'
+    : mimeType === 'image/png'
+    ? 'png'
+    : mimeType === 'image/avif'
+    ? 'avif'
+    : 'webp';
+}
+
+export function getExtension(format: OutputFormat): string {
+  return format === 'jpeg' ? 'jpg' : format;
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return `${(bytes / Math.pow(k, i)).toFixed(2)} ${sizes[i]}`;
+}
+
+export function formatPsnr(psnr: number) {
+  return Number.isFinite(psnr) ? `${psnr.toFixed(2)} dB` : '∞';
+}
+
+// 削減率（0〜1、増えた場合は負）を「−42%」「+12%」の形で表示
+export function formatSavings(ratio: number) {
+  const percent = Math.round(ratio * 1000) / 10;
+  if (percent === 0) return '±0%';
+  return percent > 0 ? `−${percent}%` : `+${-percent}%`;
+}
@@ -0,0 +1,379 @@
+/**
+ * 画像編集ダイアログ
+ * 切り抜き枠のドラッグ・縦横比プリセット・90° 回転・反転で、画像ごとの編集内容を決める
+ */
+
+import { createCanvas, getContext2D, type AnyCanvas } from './canvas.js';
+import {
+  ASPECT_PRESETS,
+  DEFAULT_EDIT,
+  FULL_CROP,
+  cropToPixels,
+  fitAspect,
+  flipCrop,
+  isFullCrop,
+  rotateCrop,
+  rotatedSize,
+  transformCanvas,
+  type CropRect,
+  type ImageEdit,
+  type Rotation,
+} from './edit.js';
+
+export type EditSource = {
+  title: string;
+  // 向き補正済みで表示される元画像の URL
+  imageUrl: string;
+  edit?: ImageEdit;
+};
+
+// プレビューは長辺をこの大きさまで縮小して描画する（切り抜き範囲は割合なので精度に影響しない）
+const PREVIEW_MAX_SIZE = 2048;
+// 切り抜き枠の最小サイズ（表示領域に対する割合）
+const MIN_CROP = 0.02;
+
+type Drag = {
+  // 'move' は枠の移動、それ以外は動かす辺・角（n / s / e / w の組み合わせ）
+  handle: string;
+  start: CropRect;
+  x: number;
+  y: number;
+};
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * 画像編集ダイアログ本体
+ * index.html の #imageEditor 内の要素を操作する
+ */
+export class ImageEditor {
+  private readonly stage: HTMLElement;
+  private readonly frame: HTMLElement;
+  private readonly canvas: HTMLCanvasElement;
+  private readonly cropBox: HTMLElement;
+  private readonly titleEl: HTMLElement;
+  private readonly sizeLabel: HTMLElement;
+
+  // 縮小した元画像（回転・反転前）
+  private base: AnyCanvas | null = null;
+  private sourceWidth = 0;
+  private sourceHeight = 0;
+  private edit: ImageEdit = { ...DEFAULT_EDIT };
+  private crop: CropRect = { ...FULL_CROP };
+  private aspect = 'free';
+  private resolve: ((edit: ImageEdit | null) => void) | null = null;
+  private returnFocus: HTMLElement | null = null;
+
+  constructor(private readonly root: HTMLElement) {
+    const part = <T extends HTMLElement>(selector: string): T => {
+      const el = root.querySelector(selector);
+      if (!el) throw new Error(`Required element not found: ${selector}`);
+      return el as T;
+    };
+    this.stage = part('.editor-stage');
+    this.frame = part('.editor-frame');
+    this.canvas = part('.editor-canvas');
+    this.cropBox = part('.editor-crop');
+    this.titleEl = part('.editor-title');
+    this.sizeLabel = part('.editor-size');
+
+    const aspects = part('.editor-aspects');
+    for (const preset of ASPECT_PRESETS) {
+      const btn = document.createElement('button');
+      btn.type = 'button';
+      btn.dataset.aspect = preset.id;
+      btn.textContent = preset.label;
+      btn.addEventListener('click', () => this.setAspect(preset.id));
+      aspects.append(btn);
+    }
+    part('[data-action="rotate-left"]').addEventListener('click', () => this.rotate(false));
+    part('[data-action="rotate-right"]').addEventListener('click', () => this.rotate(true));
+    part('[data-action="flip-h"]').addEventListener('click', () => this.flip(true));
+    part('[data-action="flip-v"]').addEventListener('click', () => this.flip(false));
+    part('[data-action="reset"]').addEventListener('click', () => this.reset());
+    part('[data-action="cancel"]').addEventListener('click', () => this.finish(null));
+    part('[data-action="apply"]').addEventListener('click', () => this.finish(this.result()));
+
+    this.setupPointer();
+    root.addEventListener('keydown', (e) => this.onKeyDown(e));
+    window.addEventListener('resize', () => {
+      if (!this.root.hidden) this.layout();
+    });
+  }
+
+  /**
+   * 編集ダイアログを開き、適用した編集内容を返す（キャンセル時は null）
+   */
+  async open(source: EditSource): Promise<ImageEdit | null> {
+    // 開いたままの場合は前の編集をキャンセル扱いにする
+    this.resolve?.(null);
+    this.returnFocus = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    this.titleEl.textContent = source.title;
+
+    const img = new Image();
+    img.decoding = 'async';
+    img.src = source.imageUrl;
+    try {
+      await img.decode();
+    } catch (err) {
+      console.warn('編集用画像の読み込みに失敗しました:', err);
+      return null;
+    }
+    this.sourceWidth = img.naturalWidth;
+    this.sourceHeight = img.naturalHeight;
+    const scale = Math.min(1, PREVIEW_MAX_SIZE / Math.max(this.sourceWidth, this.sourceHeight));
+    const { canvas, ctx } = createCanvas(
+      Math.max(1, Math.round(this.sourceWidth * scale)),
+      Math.max(1, Math.round(this.sourceHeight * scale))
+    );
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    this.base = canvas;
+
+    const edit = source.edit ?? DEFAULT_EDIT;
+    this.edit = { rotate: edit.rotate, flipH: edit.flipH, flipV: edit.flipV };
+    this.crop = { ...(edit.crop ?? FULL_CROP) };
+    this.aspect = edit.aspect ?? 'free';
+
+    this.root.hidden = false;
+    this.root.focus();
+    this.renderPreview();
+    return new Promise(resolve => {
+      this.resolve = resolve;
+    });
+  }
+
+  private finish(result: ImageEdit | null) {
+    this.root.hidden = true;
+    this.base = null;
+    this.resolve?.(result);
+    this.resolve = null;
+    this.returnFocus?.focus();
+  }
+
+  private result(): ImageEdit {
+    return {
+      ...this.edit,
+      crop: isFullCrop(this.crop) ? undefined : { ...this.crop },
+      aspect: this.aspect === 'free' ? undefined : this.aspect,
+    };
+  }
+
+  // 回転後の元画像サイズ（出力の画素数の計算に使う）
+  private outputSize() {
+    return rotatedSize(this.sourceWidth, this.sourceHeight, this.edit.rotate);
+  }
+
+  private aspectRatio(): number | undefined {
+    return ASPECT_PRESETS.find(p => p.id === this.aspect)?.ratio;
+  }
+
+  // 縦横比（画素単位）を、切り抜き範囲の割合での縦横比に変換
+  private normalizedRatio(ratio: number): number {
+    const { width, height } = this.outputSize();
+    return (ratio * height) / width;
+  }
+
+  private rotate(clockwise: boolean) {
+    this.edit.rotate = ((this.edit.rotate + (clockwise ? 90 : 270)) % 360) as Rotation;
+    // 反転は回転の後に掛かるため、さらに 90° 回すと左右反転と上下反転が入れ替わる
+    if (this.edit.flipH !== this.edit.flipV) {
+      this.edit.flipH = !this.edit.flipH;
+      this.edit.flipV = !this.edit.flipV;
+    }
+    this.crop = rotateCrop(this.crop, clockwise);
+    this.refitAspect();
+    this.renderPreview();
+  }
+
+  private flip(horizontal: boolean) {
+    if (horizontal) this.edit.flipH = !this.edit.flipH;
+    else this.edit.flipV = !this.edit.flipV;
+    this.crop = flipCrop(this.crop, horizontal);
+    this.renderPreview();
+  }
+
+  private reset() {
+    this.edit = { ...DEFAULT_EDIT };
+    this.crop = { ...FULL_CROP };
+    this.aspect = 'free';
+    this.renderPreview();
+  }
+
+  private setAspect(id: string) {
+    this.aspect = id;
+    this.refitAspect();
+    this.renderCrop();
+  }
+
+  // 縦横比を固定している場合、現在の枠の中心を保ったまま収まる最大の枠にする
+  private refitAspect() {
+    const ratio = this.aspectRatio();
+    if (!ratio) return;
+    const { width, height } = this.outputSize();
+    this.crop = fitAspect(ratio, width, height, {
+      x: this.crop.x + this.crop.width / 2,
+      y: this.crop.y + this.crop.height / 2,
+    });
+  }
+
+  private renderPreview() {
+    if (!this.base) return;
+    const transformed = transformCanvas(this.base, this.edit);
+    this.canvas.width = transformed.width;
+    this.canvas.height = transformed.height;
+    getContext2D(this.canvas).drawImage(transformed, 0, 0);
+    this.layout();
+    this.renderCrop();
+  }
+
+  // 表示領域（余白を除く）に収まる大きさで画像を表示する
+  private layout() {
+    const style = getComputedStyle(this.stage);
+    const width = this.stage.clientWidth - parseFloat(style.paddingLeft) - parseFloat(style.paddingRight);
+    const height = this.stage.clientHeight - parseFloat(style.paddingTop) - parseFloat(style.paddingBottom);
+    if (!this.canvas.width || width <= 0 || height <= 0) return;
+    const scale = Math.min(1, width / this.canvas.width, height / this.canvas.height);
+    this.frame.style.width = `${Math.floor(this.canvas.width * scale)}px`;
+    this.frame.style.height = `${Math.floor(this.canvas.height * scale)}px`;
+  }
+
+  private renderCrop() {
+    const { x, y, width, height } = this.crop;
+    this.cropBox.style.left = `${x * 100}%`;
+    this.cropBox.style.top = `${y * 100}%`;
+    this.cropBox.style.width = `${width * 100}%`;
+    this.cropBox.style.height = `${height * 100}%`;
+    const size = this.outputSize();
+    const pixels = cropToPixels(this.crop, size.width, size.height);
+    this.sizeLabel.textContent = `${pixels.width} × ${pixels.height}px`;
+    this.root.querySelectorAll<HTMLButtonElement>('[data-aspect]').forEach(btn => {
+      btn.setAttribute('aria-pressed', String(btn.dataset.aspect === this.aspect));
+    });
+  }
+
+  /**
+   * 辺・角のドラッグで枠の大きさを変える（px, py は表示領域に対する割合）
+   * 縦横比を固定している場合は反対側の辺・角（辺のハンドルでは直交方向の中心）を基準に拡大縮小する
+   */
+  private resize(handle: string, start: CropRect, px: number, py: number): CropRect {
+    const horizontal = handle.includes('e') ? 1 : handle.includes('w') ? -1 : 0;
+    const vertical = handle.includes('s') ? 1 : handle.includes('n') ? -1 : 0;
+    const ratio = this.aspectRatio();
+
+    if (!ratio) {
+      let { x, y, width, height } = start;
+      if (horizontal > 0) width = clamp(px - x, MIN_CROP, 1 - x);
+      if (horizontal < 0) {
+        const right = x + width;
+        x = clamp(px, 0, Math.max(0, right - MIN_CROP));
+        width = right - x;
+      }
+      if (vertical > 0) height = clamp(py - y, MIN_CROP, 1 - y);
+      if (vertical < 0) {
+        const bottom = y + height;
+        y = clamp(py, 0, Math.max(0, bottom - MIN_CROP));
+        height = bottom - y;
+      }
+      return { x, y, width, height };
+    }
+
+    const r = this.normalizedRatio(ratio);
+    const anchorX = horizontal > 0 ? start.x : horizontal < 0 ? start.x + start.width : start.x + start.width / 2;
+    const anchorY = vertical > 0 ? start.y : vertical < 0 ? start.y + start.height : start.y + start.height / 2;
+    let width = horizontal ? Math.max(MIN_CROP, (px - anchorX) * horizontal) : 0;
+    const height = vertical ? Math.max(MIN_CROP, (py - anchorY) * vertical) : 0;
+    if (!horizontal) width = height * r;
+    else if (vertical) width = Math.max(width, height * r);
+    // 基準点から画像の端までに収める
+    const maxWidth = horizontal > 0 ? 1 - anchorX : horizontal < 0 ? anchorX : 2 * Math.min(anchorX, 1 - anchorX);
+    const maxHeight = vertical > 0 ? 1 - anchorY : vertical < 0 ? anchorY : 2 * Math.min(anchorY, 1 - anchorY);
+    width = Math.min(width, maxWidth, maxHeight * r);
+    const fitted = { width, height: width / r };
+    return {
+      x: horizontal > 0 ? anchorX : horizontal < 0 ? anchorX - fitted.width : anchorX - fitted.width / 2,
+      y: vertical > 0 ? anchorY : vertical < 0 ? anchorY - fitted.height : anchorY - fitted.height / 2,
+      ...fitted,
+    };
+  }
+
+  private setupPointer() {
+    let drag: Drag | null = null;
+    const toFrame = (e: PointerEvent) => {
+      const rect = this.frame.getBoundingClientRect();
+      return {
+        x: clamp((e.clientX - rect.left) / rect.width, 0, 1),
+        y: clamp((e.clientY - rect.top) / rect.height, 0, 1),
+      };
+    };
+
+    this.frame.addEventListener('pointerdown', (e) => {
+      const { x, y } = toFrame(e);
+      const handle = e.target instanceof HTMLElement ? e.target.dataset.handle : undefined;
+      if (handle) {
+        drag = { handle, start: { ...this.crop }, x, y };
+      } else if (e.target instanceof Node && this.cropBox.contains(e.target)) {
+        drag = { handle: 'move', start: { ...this.crop }, x, y };
+      } else {
+        // 枠の外からドラッグした場合は新しい枠を描く（向きはドラッグ中に決める）
+        drag = { handle: 'new', start: { x, y, width: 0, height: 0 }, x, y };
+      }
+      this.frame.setPointerCapture(e.pointerId);
+      e.preventDefault();
+    });
+    this.frame.addEventListener('pointermove', (e) => {
+      if (!drag) return;
+      const { x, y } = toFrame(e);
+      const { start } = drag;
+      if (drag.handle === 'move') {
+        this.crop = {
+          ...start,
+          x: clamp(start.x + x - drag.x, 0, 1 - start.width),
+          y: clamp(start.y + y - drag.y, 0, 1 - start.height),
+        };
+      } else {
+        const handle = drag.handle === 'new'
+          ? `${y < drag.y ? 'n' : 's'}${x < drag.x ? 'w' : 'e'}`
+          : drag.handle;
+        this.crop = this.resize(handle, start, x, y);
+      }
+      this.renderCrop();
+    });
+    const end = (e: PointerEvent) => {
+      if (!drag) return;
+      drag = null;
+      this.frame.releasePointerCapture(e.pointerId);
+    };
+    this.frame.addEventListener('pointerup', end);
+    this.frame.addEventListener('pointercancel', end);
+  }
+
+  private onKeyDown(e: KeyboardEvent) {
+    switch (e.key) {
+      case 'Escape':
+        this.finish(null);
+        break;
+      case 'Enter':
+        // フォーカス中のボタンは通常どおり押せるようにする
+        if (e.target instanceof HTMLButtonElement) return;
+        this.finish(this.result());
+        break;
+      case 'r':
+        this.rotate(true);
+        break;
+      case 'R':
+        this.rotate(false);
+        break;
+      case 'h':
+        this.flip(true);
+        break;
+      case 'v':
+        this.flip(false);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * 画像処理 Worker
+ * createImageBitmap でデコードし、OffscreenCanvas 上でパイプラインを実行する
+ */
+
+import { browserCapabilities } from './browserCapabilities.js';
+import { measureQuality } from './metrics.js';
+import { decodeBitmap, runPipeline, type SourceMetadata } from './pipeline.js';
+import type { WorkerRequest, WorkerResponse } from './workerProtocol.js';
+
+// 実行中の process の中断用（リクエスト id → AbortController）
+const running = new Map<number, AbortController>();
+
+function reply(response: WorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(response, { transfer });
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    running.get(request.id)?.abort();
+    return;
+  }
+  const controller = new AbortController();
+  running.set(request.id, controller);
+  try {
+    if (request.type === 'probe') {
+      const support = await browserCapabilities.detectSupport();
+      reply({ id: request.id, type: 'probe', support });
+      return;
+    }
+    if (request.type === 'metrics') {
+      const metrics = await measureQuality(request.reference, request.encoded);
+      reply({ id: request.id, type: 'metrics', metrics });
+      return;
+    }
+
+    let bitmap: ImageBitmap;
+    let source: SourceMetadata;
+    try {
+      ({ bitmap, source } = await decodeBitmap(request.file, request.options, controller.signal));
+    } catch (err) {
+      if (controller.signal.aborted) throw err;
+      reply({ id: request.id, type: 'unsupported', error: err instanceof Error ? err.message : 'Unknown error' });
+      return;
+    }
+    try {
+      const { blob, ...rest } = await runPipeline(bitmap, request.options, source, measureQuality, controller.signal);
+      const buffer = await blob.arrayBuffer();
+      reply({ id: request.id, type: 'process', result: { ...rest, buffer, mimeType: blob.type } }, [buffer]);
+    } finally {
+      bitmap.close();
+    }
+  } catch (err) {
+    reply({ id: request.id, type: 'error', error: err instanceof Error ? err.message : 'Unknown error' });
+  } finally {
+    running.delete(request.id);
+  }
+};
@@ -1,38 +1,131 @@
-import { zip } from 'fflate';
-import { browserCapabilities, type OutputFormat, type FormatInfo } from './browserCapabilities.js';
+import { DEFAULT_AUTO_FORMAT_OPTIONS, describeCandidates, type FormatCandidate } from './autoFormat.js';
+import {
+  browserCapabilities,
+  type EncoderBackendId,
+  type EncoderPreference,
+  type FormatChoice,
+  type FormatInfo,
+  type OutputFormat,
+} from './browserCapabilities.js';
+import { copyImageToClipboard, dataUrlToBlob, extractPastedFiles } from './clipboard.js';
+import { CompareViewer } from './compareViewer.js';
+import { describeEdit, isIdentityEdit, type ImageEdit } from './edit.js';
+import type { EncoderOptions, TargetSizeOptions } from './encoder.js';
+import {
+  collectFromDataTransfer,
+  collectFromFileList,
+  getDirectory,
+  type CollectedFile,
+  type CollectResult,
+} from './fileCollector.js';
+import { computeHash8, renderFilename, resolveCollisions } from './filenames.js';
+import { formatBytes, formatPsnr, formatSavings, getExtension, getFormatFromMime } from './formatUtils.js';
+import { ImageEditor } from './imageEditor.js';
+import { parseMetadata, type MetadataMode, type MetadataReport } from './metadata.js';
+import { measureQuality, type QualityMetrics } from './metrics.js';
+import { presetStore, type PresetValues } from './presets.js';
+import { buildCsvReport, buildJsonReport, savingsRatio, summarize, type ReportRow } from './report.js';
+import { onLaunchFiles, registerServiceWorker, takeSharedFiles } from './pwa.js';
+import {
+  decodeBitmap,
+  runPipeline,
+  type ConversionOptions,
+  type PipelineResult,
+  type QualityMeasurer,
+} from './pipeline.js';
+import type { ResizeOptions, ResizeMode, FitMode } from './resize.js';
+import {
+  buildManifest,
+  buildPictureMarkup,
+  generateResponsiveSet,
+  parseWidths,
+  type ResponsiveManifestImage,
+  type ResponsiveSetOptions,
+  type ResponsiveVariant,
+} from './responsive.js';
+import { sessionStore } from './sessionStore.js';
+import type { SharpenOptions } from './sharpen.js';
+import { DEFAULT_MATTE } from './transparency.js';
+import { WASM_ENCODER_LABELS } from './wasmEncoders.js';
+import type { WatermarkOptions, WatermarkPosition } from './watermark.js';
+import { ImageWorkerPool, createImageWorker } from './workerPool.js';
+import { openZipTarget, writeZip, type ZipEntry } from './zipWriter.js';
+
+// 画像ごとの個別設定（未指定の項目は全体設定に従う）
+type ImageOverrides = {
+  format?: FormatChoice;
+  quality?: number;
+  // 合わせ方・拡大しない設定は全体設定を引き継ぐ
+  resize?: Pick<ResizeOptions, 'mode' | 'width' | 'height' | 'percent'>;
+};
+
+// 変換の状態（queued: 待機中、processing: 変換中、cancelled: 結果がないまま中断）
+type ImageStatus = 'queued' | 'processing' | 'done' | 'error' | 'cancelled';
 
 type QueuedImage = {
   id: string;
+  // キュー内の並び順（保存したセッションの復元に使う）
+  position: number;
+  status: ImageStatus;
+  // 待機中・変換中の変換を中断するためのコントローラ
+  abort?: AbortController;
   file: File;
+  // 投入したフォルダを基準とした相対パス（ZIP 内で同じフォルダ構成を再現する）
+  relativePath: string;
   originalUrl: string;
   processedBlob?: Blob;
   processedUrl?: string;
   resultFilename?: string;
+  // ZIP 内のパス（フォルダ + resultFilename）
+  resultPath?: string;
   originalSize: number;
   processedSize?: number;
+  outputWidth?: number;
+  outputHeight?: number;
+  // 実際に使用した品質（PNG では undefined）
+  chosenQuality?: number;
+  // 目標サイズモードで品質を自動決定したか
+  targetSizeApplied?: boolean;
+  // 目標サイズに収めるため縮小したか
+  downscaledToFit?: boolean;
+  // 向き補正後の元画像のサイズ
+  sourceWidth?: number;
+  sourceHeight?: number;
+  // 変換しても十分に小さくならなかったため元画像を出力にした（convertedSize は破棄した変換結果のサイズ）
+  keptOriginal?: { convertedSize: number };
+  // 透明部分を塗りつぶした背景色（塗りつぶしていない場合は undefined）
+  alphaMatte?: string;
+  // 実際に使用したエンコーダ
+  encoderBackend?: EncoderBackendId;
+  // 減色してパレット PNG で出力した場合の色数
+  paletteColors?: number;
+  // 保持・削除したメタデータ
+  metadataReport?: MetadataReport;
+  // エンコード前の画素と比較した PSNR / SSIM
+  metrics?: QualityMetrics;
+  // 出力形式を自動選択した場合に試した候補
+  formatCandidates?: FormatCandidate[];
+  // 出力内容のハッシュ（ファイル名テンプレートの {hash8}）
+  contentHash?: string;
+  // レスポンシブ画像セットの派生画像と sizes 属性
+  responsiveVariants?: ResponsiveVariant[];
+  responsiveSizes?: string;
   error?: string;
   usedFallback?: {
     requestedFormat: OutputFormat;
     actualFormat: OutputFormat;
     reason: string;
   };
+  overrides?: ImageOverrides;
+  // 回転・反転・切り抜き（元画像は変更せず、変換のたびに適用する）
+  edit?: ImageEdit;
 };
 
 const DEFAULT_CONCURRENCY = Math.min(6, Math.max(1, navigator.hardwareConcurrency || 4));
 
-function getMimeType(format: OutputFormat): string {
-  return format === 'webp'
-    ? 'image/webp'
-    : format === 'jpeg'
-    ? 'image/jpeg'
-    : format === 'png'
-    ? 'image/png'
-    : 'image/avif';
-}
-
-function getExtension(format: OutputFormat): string {
-  return format === 'jpeg' ? 'jpg' : format;
-}
+// デコード・エンコードは可能な限り Worker で行い、メインスレッドをブロックしない
+const workerPool = new ImageWorkerPool(DEFAULT_CONCURRENCY);
+browserCapabilities.setWorkerFactory(createImageWorker);
 
 async function mapWithConcurrency<T, R>(
   items: T[],
@@ -60,37 +153,103 @@ const $ = <T extends HTMLElement>(selector: string): T => {
 };
 
 const fileInput = $('#fileInput') as HTMLInputElement;
+const folderInput = $('#folderInput') as HTMLInputElement;
+const inputSummary = $('#inputSummary');
 const dropzone = $('#dropzone');
 const list = $('#list');
 const qualityInput = $('#quality') as HTMLInputElement;
 const qualityValue = $('#qualityValue');
+const sizeModeSelect = $('#sizeMode') as HTMLSelectElement;
+const targetSizeInput = $('#targetSize') as HTMLInputElement;
+const targetDownscaleInput = $('#targetDownscale') as HTMLInputElement;
 const formatSelect = $('#format') as HTMLSelectElement;
+const autoMinSsimInput = $('#autoMinSsim') as HTMLInputElement;
+const resizeModeSelect = $('#resizeMode') as HTMLSelectElement;
+const resizeWidthInput = $('#resizeWidth') as HTMLInputElement;
+const resizeHeightInput = $('#resizeHeight') as HTMLInputElement;
+const resizePercentInput = $('#resizePercent') as HTMLInputElement;
+const resizeFitSelect = $('#resizeFit') as HTMLSelectElement;
+const resizeNoEnlargeInput = $('#resizeNoEnlarge') as HTMLInputElement;
+const sharpenAmountInput = $('#sharpenAmount') as HTMLInputElement;
+const sharpenAmountValue = $('#sharpenAmountValue');
+const sharpenRadiusInput = $('#sharpenRadius') as HTMLInputElement;
+const sharpenRadiusValue = $('#sharpenRadiusValue');
+const sharpenThresholdInput = $('#sharpenThreshold') as HTMLInputElement;
+const sharpenThresholdValue = $('#sharpenThresholdValue');
+const sharpenPostResizeInput = $('#sharpenPostResize') as HTMLInputElement;
+const encoderPreferenceSelect = $('#encoderPreference') as HTMLSelectElement;
+const jpegProgressiveInput = $('#jpegProgressive') as HTMLInputElement;
+const chromaSubsamplingSelect = $('#chromaSubsampling') as HTMLSelectElement;
+const avifSpeedInput = $('#avifSpeed') as HTMLInputElement;
+const avifSpeedValue = $('#avifSpeedValue');
+const pngLevelInput = $('#pngLevel') as HTMLInputElement;
+const matteModeSelect = $('#matteMode') as HTMLSelectElement;
+const matteColorInput = $('#matteColor') as HTMLInputElement;
+const pngLevelValue = $('#pngLevelValue');
+const pngQuantizeInput = $('#pngQuantize') as HTMLInputElement;
+const pngColorsInput = $('#pngColors') as HTMLInputElement;
+const pngColorsValue = $('#pngColorsValue');
+const pngDitherInput = $('#pngDither') as HTMLInputElement;
+const metadataModeSelect = $('#metadataMode') as HTMLSelectElement;
+const metricsSummary = $('#metricsSummary');
+const keepOriginalInput = $('#keepOriginal') as HTMLInputElement;
+const keepOriginalMinSavingsInput = $('#keepOriginalMinSavings') as HTMLInputElement;
+const sizeSummary = $('#sizeSummary');
+const reportCsvBtn = $('#reportCsv') as HTMLButtonElement;
+const reportJsonBtn = $('#reportJson') as HTMLButtonElement;
+const filenameTemplateInput = $('#filenameTemplate') as HTMLInputElement;
+const responsiveEnabledInput = $('#responsiveEnabled') as HTMLInputElement;
+const responsiveWidthsInput = $('#responsiveWidths') as HTMLInputElement;
+const responsiveSizesInput = $('#responsiveSizes') as HTMLInputElement;
+const responsiveFormatInputs = Array.from(document.querySelectorAll<HTMLInputElement>('[data-responsive-format]'));
+const watermarkEnabledInput = $('#watermarkEnabled') as HTMLInputElement;
+const watermarkKindSelect = $('#watermarkKind') as HTMLSelectElement;
+const watermarkTextInput = $('#watermarkText') as HTMLInputElement;
+const watermarkFontSelect = $('#watermarkFont') as HTMLSelectElement;
+const watermarkColorInput = $('#watermarkColor') as HTMLInputElement;
+const watermarkShadowInput = $('#watermarkShadow') as HTMLInputElement;
+const watermarkLogoInput = $('#watermarkLogo') as HTMLInputElement;
+const watermarkLogoFileInput = $('#watermarkLogoFile') as HTMLInputElement;
+const watermarkLogoBtn = $('#watermarkLogoSelect') as HTMLButtonElement;
+const watermarkLogoInfo = $('#watermarkLogoInfo');
+const watermarkPositionSelect = $('#watermarkPosition') as HTMLSelectElement;
+const watermarkScaleInput = $('#watermarkScale') as HTMLInputElement;
+const watermarkScaleValue = $('#watermarkScaleValue');
+const watermarkOpacityInput = $('#watermarkOpacity') as HTMLInputElement;
+const watermarkOpacityValue = $('#watermarkOpacityValue');
+const watermarkMarginInput = $('#watermarkMargin') as HTMLInputElement;
+const watermarkTileInput = $('#watermarkTile') as HTMLInputElement;
+const filenamePreview = $('#filenamePreview');
 const downloadAllBtn = $('#downloadAll') as HTMLButtonElement;
+const zipProgress = $('#zipProgress');
+const zipProgressBar = $('#zipProgressBar') as HTMLProgressElement;
+const zipProgressText = $('#zipProgressText');
+const zipCancelBtn = $('#zipCancel') as HTMLButtonElement;
 const retryFailedBtn = $('#retryFailed') as HTMLButtonElement;
+const sessionInfo = $('#sessionInfo');
+const sessionClearBtn = $('#sessionClear') as HTMLButtonElement;
+const batchProgress = $('#batchProgress');
+const batchProgressBar = $('#batchProgressBar') as HTMLProgressElement;
+const batchProgressText = $('#batchProgressText');
+const batchCancelBtn = $('#batchCancel') as HTMLButtonElement;
 const showCompatibilityBtn = $('#showCompatibility') as HTMLButtonElement;
 const browserCompatibilitySection = $('#browserCompatibility') as HTMLElement;
 const compatibilityInfo = $('#compatibilityInfo') as HTMLElement;
+const compareViewer = new CompareViewer($('#compareViewer'));
+const imageEditor = new ImageEditor($('#imageEditor'));
+const controlsSection = $('.controls');
+const presetSelect = $('#presetSelect') as HTMLSelectElement;
+const presetSaveBtn = $('#presetSave') as HTMLButtonElement;
+const presetDeleteBtn = $('#presetDelete') as HTMLButtonElement;
+const presetExportBtn = $('#presetExport') as HTMLButtonElement;
+const presetImportBtn = $('#presetImport') as HTMLButtonElement;
+const presetImportInput = $('#presetImportInput') as HTMLInputElement;
 
 const queue: QueuedImage[] = [];
-let isReprocessing = false;
+let nextPosition = 0;
 
-function formatBytes(bytes: number) {
-  if (bytes === 0) return '0 B';
-  const k = 1024;
-  const sizes = ['B', 'KB', 'MB', 'GB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  return `${(bytes / Math.pow(k, i)).toFixed(2)} ${sizes[i]}`;
-}
-
-function createCanvasFromImage(img: HTMLImageElement) {
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d');
-  if (!ctx) throw new Error('Canvas 2D context unavailable');
-  canvas.width = img.naturalWidth;
-  canvas.height = img.naturalHeight;
-  ctx.drawImage(img, 0, 0);
-  return canvas;
-}
+// 待機中・変換中のアイテムがなくなるまでを 1 回の実行として、完了件数と経過時間から残り時間を見積もる
+let batchRun = { startedAt: 0, completed: 0 };
 
 async function decodeImageFromUrl(url: string): Promise<HTMLImageElement> {
   const img = new Image();
@@ -100,138 +259,331 @@ async function decodeImageFromUrl(url: string): Promise<HTMLImageElement> {
   return img;
 }
 
-async function encodeCanvas(
-  canvas: HTMLCanvasElement, 
-  format: OutputFormat, 
-  quality: number
-): Promise<{ blob: Blob; actualFormat: OutputFormat; usedFallback?: { requestedFormat: OutputFormat; reason: string } }> {
-  // 指定形式が対応しているかチェック
-  const isSupported = await browserCapabilities.isFormatSupported(format);
-  let actualFormat = format;
-  let usedFallback: { requestedFormat: OutputFormat; reason: string } | undefined;
-  
-  if (!isSupported) {
-    // フォールバック形式を決定
-    actualFormat = await browserCapabilities.getBestFallbackFormat(format);
-    usedFallback = {
-      requestedFormat: format,
-      reason: `${format.toUpperCase()}未対応のため${actualFormat.toUpperCase()}で出力`
-    };
+// メインスレッドで変換した場合も、画質指標の算出は Worker に任せて UI を止めない
+const measureOffMainThread: QualityMeasurer = async (reference, encoded) => {
+  if (!(await browserCapabilities.detectWorkerSupport())) return measureQuality(reference, encoded);
+  return workerPool.measure(reference, encoded);
+};
+
+/**
+ * 変換処理を実行
+ * Worker が要求形式をエンコードできる場合は Worker で、それ以外は従来どおりメインスレッドで処理する
+ */
+async function runConversion(image: QueuedImage, options: ConversionOptions, signal?: AbortSignal): Promise<PipelineResult> {
+  if (await browserCapabilities.isWorkerFormatSupported(options.format)) {
+    const result = await workerPool.process(image.file, options, signal);
+    if (result) return result;
+    // SVG など Worker でデコードできない画像はメインスレッドで処理し直す
   }
-  
-  const type = getMimeType(actualFormat);
-  
-  try {
-    const blob: Blob | null = await new Promise((resolve) =>
-      canvas.toBlob(resolve, type, quality)
-    );
-    
-    if (!blob) {
-      throw new Error(`Failed to encode image as ${actualFormat}`);
-    }
-    
-    // エンコード結果の検証
-    if (blob.type !== type) {
-      // 予期しない形式の場合、さらにフォールバックを試行
-      if (actualFormat !== 'jpeg') {
-        const fallbackBlob: Blob | null = await new Promise((resolve) =>
-          canvas.toBlob(resolve, 'image/jpeg', quality)
-        );
-        
-        if (fallbackBlob && fallbackBlob.type === 'image/jpeg') {
-          return {
-            blob: fallbackBlob,
-            actualFormat: 'jpeg',
-            usedFallback: {
-              requestedFormat: format,
-              reason: `${actualFormat.toUpperCase()}エンコード失敗のためJPEGで出力`
-            }
-          };
-        }
-      }
-      
-      throw new Error(`エンコード結果の形式が不正です: 期待=${type}, 実際=${blob.type}`);
-    }
-    
-    return { blob, actualFormat, usedFallback };
-    
-  } catch (err) {
-    if (actualFormat === 'jpeg') {
-      // JPEG でも失敗した場合は諦める
-      throw err;
-    }
-    
-    // JPEG でリトライ
+  if (typeof createImageBitmap === 'function') {
     try {
-      const fallbackBlob: Blob | null = await new Promise((resolve) =>
-        canvas.toBlob(resolve, 'image/jpeg', quality)
-      );
-      
-      if (!fallbackBlob) {
-        throw new Error('JPEG エンコードも失敗しました', { cause: err });
+      const { bitmap, source } = await decodeBitmap(image.file, options, signal);
+      try {
+        return await runPipeline(bitmap, options, source, measureOffMainThread, signal);
+      } finally {
+        bitmap.close();
       }
-      
-      return {
-        blob: fallbackBlob,
-        actualFormat: 'jpeg',
-        usedFallback: {
-          requestedFormat: format,
-          reason: `${actualFormat.toUpperCase()}エンコード失敗のためJPEGで出力`
-        }
-      };
-    } catch {
-      throw new Error(`画像のエンコードに失敗しました: ${err instanceof Error ? err.message : 'Unknown error'}`, { cause: err });
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      // createImageBitmap でデコードできない場合は <img> でデコードする
     }
   }
+  const imgEl = await decodeImageFromUrl(image.originalUrl);
+  const metadata = parseMetadata(await image.file.arrayBuffer());
+  return runPipeline(imgEl, options, { metadata, keepIcc: false }, measureOffMainThread, signal);
+}
+
+/**
+ * 全体設定に画像ごとの個別設定と編集内容を重ねる
+ * 品質を個別指定した場合は目標サイズモードより優先する
+ */
+function resolveImageOptions(image: QueuedImage, global: ConversionOptions): ConversionOptions {
+  const overrides = image.overrides;
+  const options = image.edit ? { ...global, edit: image.edit } : global;
+  if (!overrides) return options;
+  return {
+    ...options,
+    format: overrides.format ?? global.format,
+    quality: overrides.quality ?? global.quality,
+    resize: overrides.resize ? { ...global.resize, ...overrides.resize } : global.resize,
+    targetSize: overrides.quality !== undefined ? undefined : global.targetSize,
+  };
+}
+
+// 変換を実行し、結果を QueuedImage に反映（個別設定があれば全体設定より優先）
+// 中断された場合は AbortError を投げ、以前の結果はそのまま残す
+async function convertImage(
+  image: QueuedImage,
+  globalOptions: ConversionOptions,
+  signal?: AbortSignal,
+  responsive = getResponsiveOptions()
+): Promise<void> {
+  const options = resolveImageOptions(image, globalOptions);
+  const result = await runConversion(image, options, signal);
+  // 派生画像も同じ変換経路（Worker・フォールバック）で、幅と形式だけを変えて生成
+  const variants = responsive
+    ? await generateResponsiveSet(responsive, (format, width) => runConversion(image, {
+      ...options,
+      format,
+      resize: { ...options.resize, mode: 'max', width, height: undefined, withoutEnlargement: true },
+    }, signal))
+    : undefined;
+  const keptOriginal = shouldKeepOriginal(image, options, result);
+  const applied = keptOriginal ? toKeptOriginalResult(image, result) : result;
+  const contentHash = await computeHash8(applied.blob);
+  signal?.throwIfAborted();
+
+  if (image.processedUrl) URL.revokeObjectURL(image.processedUrl);
+
+  const actualFormat = applied.actualFormat;
+
+  image.processedBlob = applied.blob;
+  image.processedSize = applied.blob.size;
+  image.outputWidth = applied.width;
+  image.outputHeight = applied.height;
+  image.sourceWidth = result.sourceWidth;
+  image.sourceHeight = result.sourceHeight;
+  image.keptOriginal = keptOriginal ? { convertedSize: result.blob.size } : undefined;
+  image.chosenQuality = applied.quality;
+  image.targetSizeApplied = Boolean(options.targetSize) && !keptOriginal;
+  image.downscaledToFit = applied.downscaledToFit;
+  image.alphaMatte = applied.alphaFlattened ? options.encoder.matte ?? DEFAULT_MATTE : undefined;
+  image.encoderBackend = applied.backend;
+  image.paletteColors = applied.paletteColors;
+  image.metadataReport = applied.metadata;
+  image.metrics = applied.metrics;
+  image.formatCandidates = applied.formatCandidates;
+  image.contentHash = contentHash;
+  image.responsiveVariants = variants;
+  image.responsiveSizes = responsive?.sizes;
+  image.processedUrl = URL.createObjectURL(applied.blob);
+  image.error = undefined;
+
+  // フォールバック情報を更新
+  if (applied.usedFallback) {
+    image.usedFallback = {
+      requestedFormat: applied.usedFallback.requestedFormat,
+      actualFormat: actualFormat,
+      reason: applied.usedFallback.reason
+    };
+  } else {
+    image.usedFallback = undefined;
+  }
 }
 
-async function processFile(file: File, format: OutputFormat, quality: number): Promise<QueuedImage> {
-  const originalUrl = URL.createObjectURL(file);
-  const image: QueuedImage = {
+// 元のバイト列をそのまま出力にできる形式
+const KEEPABLE_TYPES = new Set(['image/jpeg', 'image/png', 'image/webp', 'image/avif']);
+
+/**
+ * 変換しても十分に小さくならない場合、元画像を維持するか
+ * 見た目を変える処理（編集・シャープ化・リサイズ・透かし）や、削除すべきメタデータがある場合は変換結果を使う
+ */
+function shouldKeepOriginal(image: QueuedImage, options: ConversionOptions, result: PipelineResult): boolean {
+  if (!keepOriginalInput.checked) return false;
+  const minSavings = Math.max(0, Number(keepOriginalMinSavingsInput.value) || 0) / 100;
+  if (savingsRatio(image.originalSize, result.blob.size) >= minSavings) return false;
+  return KEEPABLE_TYPES.has(image.file.type)
+    && !options.edit
+    && !options.watermark
+    && options.sharpen.amount <= 0
+    && result.width === result.sourceWidth
+    && result.height === result.sourceHeight
+    && !result.metadata?.removed.length;
+}
+
+// 元画像を出力とする場合の結果（エンコーダ・画質指標・メタデータの報告は元画像には当てはまらないため含めない）
+function toKeptOriginalResult(image: QueuedImage, result: PipelineResult): Omit<PipelineResult, 'backend'> & { backend?: EncoderBackendId } {
+  return {
+    blob: image.file,
+    actualFormat: getFormatFromMime(image.file.type),
+    width: result.sourceWidth,
+    height: result.sourceHeight,
+    sourceWidth: result.sourceWidth,
+    sourceHeight: result.sourceHeight,
+    downscaledToFit: false,
+    alphaFlattened: false,
+    formatCandidates: result.formatCandidates,
+  };
+}
+
+function getResponsiveOptions(): ResponsiveSetOptions | undefined {
+  if (!responsiveEnabledInput.checked) return undefined;
+  const widths = parseWidths(responsiveWidthsInput.value);
+  const formats = responsiveFormatInputs.filter(input => input.checked).map(input => input.dataset.responsiveFormat as OutputFormat);
+  if (widths.length === 0 || formats.length === 0) return undefined;
+  return { widths, formats, sizes: responsiveSizesInput.value.trim() || '100vw' };
+}
+
+function updateResponsiveUI() {
+  const enabled = responsiveEnabledInput.checked;
+  responsiveWidthsInput.disabled = !enabled;
+  responsiveSizesInput.disabled = !enabled;
+  for (const input of responsiveFormatInputs) input.disabled = !enabled;
+}
+
+function getResponsiveMarkup(image: QueuedImage): string {
+  if (!image.responsiveVariants) return '';
+  return buildPictureMarkup(image.responsiveVariants, image.file.name.replace(/\.[^.]+$/, ''), image.responsiveSizes ?? '100vw');
+}
+
+function createQueuedImage({ file, relativePath }: CollectedFile): QueuedImage {
+  return {
     id: crypto.randomUUID(),
+    position: nextPosition++,
+    status: 'queued',
     file,
-    originalUrl,
+    relativePath,
+    originalUrl: URL.createObjectURL(file),
     originalSize: file.size,
   };
+}
 
-  try {
-    const img = await decodeImageFromUrl(originalUrl);
-    const canvas = createCanvasFromImage(img);
-    const result = await encodeCanvas(canvas, format, quality);
-    
-    const actualFormat = result.actualFormat;
-    const ext = getExtension(actualFormat);
-    const nameWithoutExt = file.name.replace(/\.[^.]+$/, '');
-    
-    image.processedBlob = result.blob;
-    image.processedSize = result.blob.size;
-    image.resultFilename = `${nameWithoutExt}.${ext}`;
-    image.processedUrl = URL.createObjectURL(result.blob);
-    
-    // フォールバック情報を保存
-    if (result.usedFallback) {
-      image.usedFallback = {
-        requestedFormat: result.usedFallback.requestedFormat,
-        actualFormat: actualFormat,
-        reason: result.usedFallback.reason
-      };
-    }
-    
-  } catch (err) {
-    image.error = err instanceof Error ? err.message : 'Unknown error';
+function getEncoderLabel(format: OutputFormat, backend: EncoderBackendId): string {
+  return backend === 'wasm' ? `${WASM_ENCODER_LABELS[format]}（WASM）` : 'Canvas';
+}
+
+// 減色は独自に書き出し、WASM を使う設定では oxipng で最適化し直す
+function describePalette(colors: number, backend: EncoderBackendId): string {
+  return `パレット PNG（${colors} 色）${backend === 'wasm' ? ` + ${WASM_ENCODER_LABELS.png}（WASM）` : ''}`;
+}
+
+const RESIZE_MODE_LABELS: Record<ResizeMode, string> = {
+  none: 'なし',
+  max: '最大幅・高さ',
+  exact: 'サイズ指定',
+  percent: '倍率（%）',
+};
+
+function describeOverrides(overrides: ImageOverrides): string {
+  const parts: string[] = [];
+  if (overrides.format) parts.push(overrides.format === 'auto' ? '形式自動' : overrides.format.toUpperCase());
+  if (overrides.quality !== undefined) parts.push(`品質 ${overrides.quality}`);
+  if (overrides.resize) {
+    const { mode, width, height, percent } = overrides.resize;
+    parts.push(
+      mode === 'percent'
+        ? `リサイズ ${percent ?? '-'}%`
+        : mode === 'none'
+        ? 'リサイズなし'
+        : `${RESIZE_MODE_LABELS[mode]} ${width ?? '-'} × ${height ?? '-'}px`
+    );
+  }
+  return parts.join(' / ');
+}
+
+function renderOverrideForm(img: QueuedImage): string {
+  const overrides = img.overrides ?? {};
+  const formatOptions = Array.from(formatSelect.options)
+    .map(opt => `<option value="${opt.value}">${opt.textContent}</option>`)
+    .join('');
+  const resizeOptions = (Object.keys(RESIZE_MODE_LABELS) as ResizeMode[])
+    .map(mode => `<option value="${mode}">${RESIZE_MODE_LABELS[mode]}</option>`)
+    .join('');
+  return `
+    <details class="item-settings">
+      <summary>個別設定${img.overrides ? '（適用中）' : ''}</summary>
+      <div class="item-settings-body">
+        <label>形式
+          <select data-field="format"><option value="">全体設定に従う</option>${formatOptions}</select>
+        </label>
+        <label>品質
+          <input data-field="quality" type="number" min="0.1" max="1" step="0.05" placeholder="全体設定（${qualityInput.value}）" value="${overrides.quality ?? ''}" />
+        </label>
+        <label>リサイズ
+          <select data-field="resizeMode"><option value="">全体設定に従う</option>${resizeOptions}</select>
+        </label>
+        <div class="inline-inputs">
+          <input data-field="resizeWidth" type="number" min="1" step="1" placeholder="幅" value="${overrides.resize?.width ?? ''}" />
+          <span>×</span>
+          <input data-field="resizeHeight" type="number" min="1" step="1" placeholder="高さ" value="${overrides.resize?.height ?? ''}" />
+          <input data-field="resizePercent" type="number" min="1" max="400" step="1" placeholder="%" value="${overrides.resize?.percent ?? ''}" />
+        </div>
+        <button type="button" data-action="reset-overrides"${img.overrides ? '' : ' disabled'}>全体設定に戻す</button>
+      </div>
+    </details>
+  `;
+}
+
+// 個別設定フォームの入力値を読み取る（すべて未指定なら undefined）
+function readOverrideForm(el: HTMLElement): ImageOverrides | undefined {
+  const field = <T extends HTMLInputElement | HTMLSelectElement>(name: string) =>
+    el.querySelector(`[data-field="${name}"]`) as T;
+  const overrides: ImageOverrides = {};
+  const format = field<HTMLSelectElement>('format').value;
+  if (format) overrides.format = format as FormatChoice;
+  const quality = readPositiveNumber(field<HTMLInputElement>('quality'));
+  if (quality !== undefined) overrides.quality = Math.min(1, Math.max(0.1, quality));
+  const resizeMode = field<HTMLSelectElement>('resizeMode').value;
+  if (resizeMode) {
+    overrides.resize = {
+      mode: resizeMode as ResizeMode,
+      width: readPositiveNumber(field<HTMLInputElement>('resizeWidth')),
+      height: readPositiveNumber(field<HTMLInputElement>('resizeHeight')),
+      percent: readPositiveNumber(field<HTMLInputElement>('resizePercent')),
+    };
   }
-  return image;
+  return Object.keys(overrides).length > 0 ? overrides : undefined;
 }
 
+function updateOverrideFormUI(el: HTMLElement) {
+  const mode = (el.querySelector('[data-field="resizeMode"]') as HTMLSelectElement).value;
+  const usesSize = mode === 'max' || mode === 'exact';
+  (el.querySelector('[data-field="resizeWidth"]') as HTMLInputElement).disabled = !usesSize;
+  (el.querySelector('[data-field="resizeHeight"]') as HTMLInputElement).disabled = !usesSize;
+  (el.querySelector('[data-field="resizePercent"]') as HTMLInputElement).disabled = mode !== 'percent';
+}
+
+// 形式ごとの幅の一覧（例: AVIF 480/960 · WEBP 480/960）
+function describeVariants(variants: ResponsiveVariant[]): string {
+  const byFormat = new Map<OutputFormat, number[]>();
+  for (const v of variants) byFormat.set(v.format, [...(byFormat.get(v.format) ?? []), v.width]);
+  return Array.from(byFormat, ([format, widths]) => `${format.toUpperCase()} ${widths.join('/')}`).join(' · ');
+}
+
+// 元画像からの増減（小さくなった場合は緑、大きくなった場合は赤）
+function renderSavings(originalSize: number, outputSize: number): string {
+  const ratio = savingsRatio(originalSize, outputSize);
+  const kind = outputSize < originalSize ? 'smaller' : outputSize > originalSize ? 'larger' : 'same';
+  return ` <span class="savings savings--${kind}">${formatSavings(ratio)}</span>`;
+}
+
+// 採用した形式を強調し、除外した候補は理由を添える
+function renderCandidates(candidates: FormatCandidate[]): string {
+  return candidates
+    .map(c => (c.chosen ? `<strong>${escapeHtml(describeCandidates([c]))}</strong>` : escapeHtml(describeCandidates([c]))))
+    .join(' · ');
+}
+
+const STATUS_LABELS: Partial<Record<ImageStatus, string>> = {
+  queued: '待機中',
+  processing: '変換中…',
+  cancelled: 'キャンセルしました',
+};
+
 function renderItem(img: QueuedImage) {
   const el = document.createElement('article');
-  el.className = 'item';
+  el.className = ['item', img.overrides || img.edit ? 'item--overridden' : '', img.abort ? `item--${img.status}` : '']
+    .filter(Boolean)
+    .join(' ');
   el.dataset.id = img.id;
+  if (img.status === 'processing') el.setAttribute('aria-busy', 'true');
   
   // フォールバック情報の表示
   const fallbackInfo = img.usedFallback 
     ? `<div class="fallback-notice">⚠️ ${img.usedFallback.reason}</div>`
     : '';
+  // フォールバックの理由で透過の喪失を伝えている場合は重ねて表示しない
+  const alphaInfo = img.alphaMatte && !img.usedFallback
+    ? `<div class="fallback-notice">⚠️ JPEG は透過を保存できないため、透明部分を背景色 ${img.alphaMatte} で塗りつぶしました</div>`
+    : '';
+
+  const report = img.metadataReport;
+  const metadataInfo = report && (report.kept.length > 0 || report.removed.length > 0)
+    ? `<div>メタデータ: ${[
+      report.kept.length > 0 ? `保持: ${report.kept.join('、')}` : '',
+      report.removed.length > 0 ? `削除: ${report.removed.join('、')}` : '',
+    ].filter(Boolean).join(' / ')}</div>`
+    : '';
   
   el.innerHTML = `
     <div class="thumbs">
@@ -243,17 +595,71 @@ function renderItem(img: QueuedImage) {
       </figure>
     </div>
     <div class="meta">
+      ${getDirectory(img.relativePath) ? `<div class="item-path" title="${escapeHtml(img.relativePath)}">📁 ${escapeHtml(getDirectory(img.relativePath))}</div>` : ''}
       <div>元: ${formatBytes(img.originalSize)}${img.file.type ? ` (${img.file.type})` : ''}</div>
-      <div>後: ${img.processedSize ? formatBytes(img.processedSize) : '-'}${img.processedBlob ? ` (${img.processedBlob.type})` : ''}</div>
+      <div>後: ${img.processedSize ? formatBytes(img.processedSize) : '-'}${img.processedBlob ? ` (${img.processedBlob.type})` : ''}${img.processedSize ? renderSavings(img.originalSize, img.processedSize) : ''}</div>
+      ${img.keptOriginal ? `<div class="override-badge">元画像を維持（変換後は ${formatBytes(img.keptOriginal.convertedSize)}${renderSavings(img.originalSize, img.keptOriginal.convertedSize)}）</div>` : ''}
+      ${img.outputWidth && img.outputHeight ? `<div>サイズ: ${img.outputWidth} × ${img.outputHeight}px${img.downscaledToFit ? '（目標サイズに合わせて縮小）' : ''}</div>` : ''}
+      ${img.responsiveVariants ? `<div>レスポンシブ: ${img.responsiveVariants.length} 種類（${describeVariants(img.responsiveVariants)}）</div>` : ''}
+      ${img.formatCandidates ? `<div class="format-candidates">形式の候補: ${renderCandidates(img.formatCandidates)}</div>` : ''}
+      ${img.metrics ? `<div>画質: PSNR ${formatPsnr(img.metrics.psnr)} / SSIM ${img.metrics.ssim.toFixed(4)}</div>` : ''}
+      ${img.encoderBackend && img.processedBlob ? `<div>エンコーダ: ${img.paletteColors ? describePalette(img.paletteColors, img.encoderBackend) : getEncoderLabel(getFormatFromMime(img.processedBlob.type), img.encoderBackend)}</div>` : ''}
+      ${img.chosenQuality !== undefined ? `<div>品質: ${img.chosenQuality}${img.targetSizeApplied ? '（目標サイズから自動決定）' : ''}</div>` : ''}
+      ${metadataInfo}
+      ${img.overrides ? `<div class="override-badge">個別設定: ${describeOverrides(img.overrides)}</div>` : ''}
+      ${img.edit ? `<div class="override-badge">編集: ${describeEdit(img.edit)}</div>` : ''}
+      ${STATUS_LABELS[img.status] ? `<div class="item-status">${STATUS_LABELS[img.status]}</div>` : ''}
       ${img.error ? `<div style="color:#fca5a5">エラー: ${img.error}</div>` : ''}
       ${fallbackInfo}
+      ${alphaInfo}
     </div>
+    ${renderOverrideForm(img)}
     <div class="actions">
+      <button data-action="edit" title="切り抜き・回転・反転">編集</button>
+      <button data-action="compare"${img.processedUrl ? '' : ' disabled'}>比較</button>
+      <button data-action="copy"${img.processedBlob ? '' : ' disabled'} title="変換後の画像をクリップボードにコピー">コピー</button>
+      ${img.responsiveVariants ? '<button data-action="copy-markup" title="<picture> のマークアップをコピー">HTML</button>' : ''}
+      ${img.abort ? '<button data-action="cancel">中止</button>' : ''}
       <button data-action="download">個別DL</button>
       <button data-action="remove">削除</button>
     </div>
+    <div class="item-notice" aria-live="polite" hidden></div>
   `;
 
+  // 個別設定の変更・リセット時はこのアイテムだけ再エンコード
+  (el.querySelector('[data-field="format"]') as HTMLSelectElement).value = img.overrides?.format ?? '';
+  (el.querySelector('[data-field="resizeMode"]') as HTMLSelectElement).value = img.overrides?.resize?.mode ?? '';
+  updateOverrideFormUI(el);
+  el.querySelectorAll('[data-field]').forEach(input => {
+    input.addEventListener('change', () => {
+      updateOverrideFormUI(el);
+      img.overrides = readOverrideForm(el);
+      reprocessItem(img);
+    });
+  });
+  el.querySelector('[data-action="reset-overrides"]')?.addEventListener('click', () => {
+    img.overrides = undefined;
+    reprocessItem(img);
+  });
+
+  el.querySelector('[data-action="edit"]')?.addEventListener('click', async () => {
+    const edit = await imageEditor.open({ title: img.file.name, imageUrl: img.originalUrl, edit: img.edit });
+    // 編集中に削除された場合は何もしない
+    if (!edit || !queue.includes(img)) return;
+    const next = isIdentityEdit(edit) ? undefined : edit;
+    if (JSON.stringify(next) === JSON.stringify(img.edit)) return;
+    img.edit = next;
+    reprocessItem(img);
+  });
+  el.querySelector('[data-action="compare"]')?.addEventListener('click', () => {
+    if (!img.processedUrl) return;
+    compareViewer.open({
+      title: img.resultFilename ?? img.file.name,
+      originalUrl: img.originalUrl,
+      processedUrl: img.processedUrl,
+      edit: img.edit,
+    });
+  });
   el.querySelector('[data-action="download"]')?.addEventListener('click', () => {
     if (!img.processedBlob || !img.resultFilename) return;
     const a = document.createElement('a');
@@ -261,26 +667,207 @@ function renderItem(img: QueuedImage) {
     a.download = img.resultFilename;
     a.click();
   });
+  el.querySelector('[data-action="copy"]')?.addEventListener('click', async (e) => {
+    if (!img.processedBlob) return;
+    const button = e.currentTarget as HTMLButtonElement;
+    const notice = el.querySelector('.item-notice') as HTMLElement;
+    try {
+      const result = await copyImageToClipboard(img.processedBlob);
+      button.textContent = 'コピー済';
+      // PNG に変換した場合は理由を表示
+      notice.textContent = result.convertedReason ?? '';
+      notice.hidden = !result.convertedReason;
+    } catch (err) {
+      button.textContent = '失敗';
+      notice.textContent = err instanceof Error ? err.message : 'コピーできませんでした';
+      notice.hidden = false;
+    }
+    setTimeout(() => { button.textContent = 'コピー'; }, 1500);
+  });
+  el.querySelector('[data-action="copy-markup"]')?.addEventListener('click', async (e) => {
+    const button = e.currentTarget as HTMLButtonElement;
+    try {
+      await navigator.clipboard.writeText(getResponsiveMarkup(img));
+      button.textContent = 'コピー済';
+    } catch {
+      button.textContent = '失敗';
+    }
+    setTimeout(() => { button.textContent = 'HTML'; }, 1500);
+  });
+  el.querySelector('[data-action="cancel"]')?.addEventListener('click', () => {
+    cancelImage(img);
+    refreshItem(img);
+    updateBatchProgress();
+  });
   el.querySelector('[data-action="remove"]')?.addEventListener('click', () => {
     const idx = queue.findIndex(q => q.id === img.id);
     if (idx >= 0) {
+      cancelImage(queue[idx]);
       URL.revokeObjectURL(queue[idx].originalUrl);
       if (queue[idx].processedUrl) URL.revokeObjectURL(queue[idx].processedUrl);
       queue.splice(idx, 1);
       refreshList();
+      updateBatchProgress();
+      sessionStore.remove(img.id).then(() => updateSessionInfo());
     }
   });
 
   return el;
 }
 
+/**
+ * ファイル名テンプレートから全アイテムの出力ファイル名を決め、プレビューを更新
+ * 重複は同じフォルダ内でキューの並び順に解決するため、同じキューからは常に同じ名前になる
+ */
+function updateResultFilenames() {
+  const template = filenameTemplateInput.value;
+  const items = queue.filter(q => q.processedBlob);
+  const rendered = items.map(item => renderFilename(template, {
+    name: item.file.name.replace(/\.[^.]+$/, ''),
+    width: item.outputWidth,
+    height: item.outputHeight,
+    quality: item.chosenQuality,
+    format: getExtension(getFormatFromMime(item.processedBlob!.type)),
+    index: queue.indexOf(item) + 1,
+    total: queue.length,
+    hash8: item.contentHash,
+  }));
+  const dirs = items.map(item => getDirectory(item.relativePath));
+  const resolved = resolveCollisions(rendered.map((name, i) => dirs[i] + name));
+  items.forEach((item, i) => {
+    item.resultPath = resolved[i];
+    item.resultFilename = resolved[i].slice(dirs[i].length);
+  });
+
+  // 派生画像は「出力ファイル名-幅w.拡張子」とし、出力ファイルと重ならないようまとめて解決する
+  const variants = items.flatMap((item, i) => (item.responsiveVariants ?? []).map(variant => ({ variant, dir: dirs[i], item })));
+  const variantPaths = variants.map(({ variant, dir, item }) =>
+    `${dir}${item.resultFilename!.replace(/\.[^.]+$/, '')}-${variant.width}w.${getExtension(variant.format)}`
+  );
+  resolveCollisions([...resolved, ...variantPaths]).slice(resolved.length).forEach((path, i) => {
+    variants[i].variant.filename = path.slice(variants[i].dir.length);
+  });
+
+  if (items.length === 0) {
+    filenamePreview.innerHTML = '';
+    return;
+  }
+  const renamed = resolved.filter((path, i) => path !== dirs[i] + rendered[i]).length;
+  const rows = items.map((item, i) => {
+    const note = resolved[i] !== dirs[i] + rendered[i] ? ' <span class="filename-renamed">（重複のため連番を付与）</span>' : '';
+    return `<li><span class="filename-source">${escapeHtml(item.relativePath)}</span> → ${escapeHtml(resolved[i])}${note}</li>`;
+  });
+  // 入力中にプレビューが閉じないよう開閉状態を維持
+  const wasOpen = filenamePreview.querySelector('details')?.open ?? false;
+  filenamePreview.innerHTML = `
+    <details${wasOpen ? ' open' : ''}>
+      <summary>出力ファイル名のプレビュー（${items.length} 件${renamed > 0 ? `・重複 ${renamed} 件` : ''}）</summary>
+      <ol>${rows.join('')}</ol>
+    </details>
+  `;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
 function refreshList() {
   if (!list) return;
+  updateResultFilenames();
   list.innerHTML = '';
   const frag = document.createDocumentFragment();
   for (const item of queue) frag.appendChild(renderItem(item));
   list.appendChild(frag);
   updateDownloadAllState();
+  updateMetricsSummary();
+  updateSizeSummary();
+}
+
+// 1 件だけ描画し直す（個別設定パネルの開閉状態は維持）
+function refreshItem(image: QueuedImage) {
+  const current = list.querySelector(`[data-id="${image.id}"]`);
+  if (!current) return;
+  updateResultFilenames();
+  const wasOpen = current.querySelector('details')?.open ?? false;
+  const next = renderItem(image);
+  const details = next.querySelector('details');
+  if (details) details.open = wasOpen;
+  current.replaceWith(next);
+  updateDownloadAllState();
+  updateMetricsSummary();
+  updateSizeSummary();
+}
+
+// レポートの行（キューの並び順）
+function buildReportRows(): ReportRow[] {
+  return queue.map(item => {
+    const converted = item.processedBlob && !item.error;
+    return {
+      path: item.relativePath,
+      output: converted ? item.resultPath : undefined,
+      status: item.status,
+      sourceType: item.file.type,
+      outputType: converted ? item.processedBlob!.type : undefined,
+      sourceWidth: item.sourceWidth,
+      sourceHeight: item.sourceHeight,
+      outputWidth: converted ? item.outputWidth : undefined,
+      outputHeight: converted ? item.outputHeight : undefined,
+      quality: converted ? item.chosenQuality : undefined,
+      originalBytes: item.originalSize,
+      outputBytes: converted ? item.processedSize : undefined,
+      savingsPercent: converted ? Math.round(savingsRatio(item.originalSize, item.processedSize!) * 1000) / 10 : undefined,
+      keptOriginal: Boolean(converted && item.keptOriginal),
+      error: item.error,
+    };
+  });
+}
+
+// キュー全体の変換前後の合計サイズを表示
+function updateSizeSummary() {
+  const summary = summarize(buildReportRows());
+  reportCsvBtn.disabled = queue.length === 0;
+  reportJsonBtn.disabled = queue.length === 0;
+  if (summary.count === 0) {
+    sizeSummary.textContent = '-';
+    return;
+  }
+  sizeSummary.innerHTML = `
+    <div>${formatBytes(summary.originalBytes)} → ${formatBytes(summary.outputBytes)}${renderSavings(summary.originalBytes, summary.outputBytes)}</div>
+    <div>${summary.count} 枚${summary.keptOriginal > 0 ? `（元画像を維持: ${summary.keptOriginal} 枚）` : ''}</div>
+  `;
+}
+
+function downloadReport(content: string, type: string, extension: string) {
+  const a = document.createElement('a');
+  a.href = URL.createObjectURL(new Blob([content], { type }));
+  a.download = `image-sharpener-report.${extension}`;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(a.href), 0);
+}
+
+function updateKeepOriginalUI() {
+  keepOriginalMinSavingsInput.disabled = !keepOriginalInput.checked;
+}
+
+// キュー全体の画質指標（最小・平均）を表示
+function updateMetricsSummary() {
+  const measured = queue.filter(q => q.metrics && !q.error).map(q => q.metrics!);
+  if (measured.length === 0) {
+    metricsSummary.textContent = '-';
+    return;
+  }
+  // 劣化のない画像（PSNR = ∞）は平均から除外する
+  const finitePsnr = measured.map(m => m.psnr).filter(Number.isFinite);
+  const minPsnr = Math.min(...measured.map(m => m.psnr));
+  const avgPsnr = finitePsnr.length > 0 ? finitePsnr.reduce((a, b) => a + b, 0) / finitePsnr.length : Infinity;
+  const ssims = measured.map(m => m.ssim);
+  const minSsim = Math.min(...ssims);
+  const avgSsim = ssims.reduce((a, b) => a + b, 0) / ssims.length;
+  metricsSummary.innerHTML = `
+    <div>PSNR 最小 ${formatPsnr(minPsnr)} / 平均 ${formatPsnr(avgPsnr)}</div>
+    <div>SSIM 最小 ${minSsim.toFixed(4)} / 平均 ${avgSsim.toFixed(4)}</div>
+    <div>${measured.length} 枚</div>
+  `;
 }
 
 function updateDownloadAllState() {
@@ -305,21 +892,299 @@ function setGlobalBusy(busy: boolean) {
 }
 
 function updateQualityUI() {
-  const format = (formatSelect.value as OutputFormat) ?? 'webp';
+  const format = (formatSelect.value as FormatChoice) ?? 'webp';
   const isPng = format === 'png';
-  qualityInput.disabled = isPng;
-  qualityValue.textContent = isPng ? 'N/A' : qualityInput.value;
-  qualityInput.title = isPng ? 'PNGでは品質設定は無効です' : '';
-}
-
-async function handleFiles(files: FileList | null) {
-  if (!files || files.length === 0) return;
-  const format = (formatSelect.value as OutputFormat) ?? 'webp';
-  const quality = Number(qualityInput.value);
-  const items = Array.from(files);
-  const results = await mapWithConcurrency(items, DEFAULT_CONCURRENCY, (file) => processFile(file, format, quality));
-  queue.push(...results);
-  refreshList();
+  autoMinSsimInput.disabled = format !== 'auto';
+  const isTargetMode = sizeModeSelect.value === 'target';
+  qualityInput.disabled = isPng || isTargetMode;
+  qualityValue.textContent = isPng ? 'N/A' : isTargetMode ? '自動' : qualityInput.value;
+  qualityInput.title = isPng
+    ? pngQuantizeInput.checked ? 'PNGでは品質の代わりに減色の色数でサイズを調整します' : 'PNGでは品質設定は無効です'
+    : isTargetMode
+    ? '目標サイズモードでは品質は自動で決定されます'
+    : '';
+  targetSizeInput.disabled = !isTargetMode;
+  targetDownscaleInput.disabled = !isTargetMode;
+}
+
+function getTargetSizeOptions(): TargetSizeOptions | undefined {
+  if (sizeModeSelect.value !== 'target') return undefined;
+  const kb = readPositiveNumber(targetSizeInput);
+  if (kb === undefined) return undefined;
+  return {
+    maxBytes: Math.floor(kb * 1024),
+    allowDownscale: targetDownscaleInput.checked,
+  };
+}
+
+function updateResizeUI() {
+  const mode = resizeModeSelect.value as ResizeMode;
+  const usesSize = mode === 'max' || mode === 'exact';
+  resizeWidthInput.disabled = !usesSize;
+  resizeHeightInput.disabled = !usesSize;
+  resizePercentInput.disabled = mode !== 'percent';
+  resizeFitSelect.disabled = mode !== 'exact';
+  resizeNoEnlargeInput.disabled = mode === 'none';
+}
+
+function readPositiveNumber(input: HTMLInputElement): number | undefined {
+  const value = Number(input.value);
+  return input.value !== '' && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+function getResizeOptions(): ResizeOptions {
+  return {
+    mode: (resizeModeSelect.value as ResizeMode) || 'none',
+    width: readPositiveNumber(resizeWidthInput),
+    height: readPositiveNumber(resizeHeightInput),
+    percent: readPositiveNumber(resizePercentInput),
+    fit: (resizeFitSelect.value as FitMode) || 'contain',
+    withoutEnlargement: resizeNoEnlargeInput.checked,
+  };
+}
+
+function updateSharpenUI() {
+  const amount = Number(sharpenAmountInput.value);
+  sharpenAmountValue.textContent = amount > 0 ? `${Math.round(amount * 100)}%` : 'OFF';
+  sharpenRadiusValue.textContent = `${sharpenRadiusInput.value}px`;
+  sharpenThresholdValue.textContent = sharpenThresholdInput.value;
+  sharpenRadiusInput.disabled = amount <= 0;
+  sharpenThresholdInput.disabled = amount <= 0;
+}
+
+function getSharpenOptions(): SharpenOptions {
+  return {
+    amount: Number(sharpenAmountInput.value),
+    radius: Number(sharpenRadiusInput.value),
+    threshold: Number(sharpenThresholdInput.value),
+    postResize: sharpenPostResizeInput.checked,
+  };
+}
+
+function updateEncoderUI() {
+  avifSpeedValue.textContent = avifSpeedInput.value;
+  pngLevelValue.textContent = pngLevelInput.value;
+  pngColorsValue.textContent = `${pngColorsInput.value} 色`;
+  pngColorsInput.disabled = !pngQuantizeInput.checked;
+  pngDitherInput.disabled = !pngQuantizeInput.checked;
+  matteColorInput.disabled = matteModeSelect.value !== 'custom';
+}
+
+function getEncoderOptions(): EncoderOptions {
+  return {
+    preference: (encoderPreferenceSelect.value as EncoderPreference) || 'auto',
+    codec: {
+      jpegProgressive: jpegProgressiveInput.checked,
+      chromaSubsampling: chromaSubsamplingSelect.value === '444' ? '444' : '420',
+      avifSpeed: Number(avifSpeedInput.value),
+      pngLevel: Number(pngLevelInput.value),
+    },
+    matte: matteModeSelect.value === 'custom' ? matteColorInput.value : DEFAULT_MATTE,
+    palette: pngQuantizeInput.checked
+      ? { colors: Number(pngColorsInput.value), dither: pngDitherInput.checked }
+      : undefined,
+  };
+}
+
+// ロゴは data URL としてプリセット（localStorage）に保存するため大きさを制限する
+const WATERMARK_LOGO_MAX_BYTES = 512 * 1024;
+
+function readAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// プリセットに保存できるよう data URL で持つロゴを、変換に渡す Blob に変換（同じ画像は使い回す）
+let watermarkLogo: { url: string; blob: Blob | null } = { url: '', blob: null };
+
+function getWatermarkLogo(): Blob | undefined {
+  const url = watermarkLogoInput.value;
+  if (watermarkLogo.url !== url) watermarkLogo = { url, blob: url ? dataUrlToBlob(url) : null };
+  return watermarkLogo.blob ?? undefined;
+}
+
+function getWatermarkOptions(): WatermarkOptions | undefined {
+  if (!watermarkEnabledInput.checked) return undefined;
+  const kind = watermarkKindSelect.value === 'logo' ? 'logo' : 'text';
+  const logo = kind === 'logo' ? getWatermarkLogo() : undefined;
+  if (kind === 'logo' ? !logo : watermarkTextInput.value.trim() === '') return undefined;
+  return {
+    kind,
+    text: watermarkTextInput.value,
+    font: watermarkFontSelect.value || 'sans-serif',
+    color: watermarkColorInput.value,
+    shadow: watermarkShadowInput.checked,
+    logo,
+    position: (watermarkPositionSelect.value as WatermarkPosition) || 'bottom-right',
+    margin: Math.max(0, Number(watermarkMarginInput.value) || 0),
+    opacity: Number(watermarkOpacityInput.value),
+    scale: Number(watermarkScaleInput.value),
+    tile: watermarkTileInput.checked,
+  };
+}
+
+function updateWatermarkUI() {
+  const enabled = watermarkEnabledInput.checked;
+  const isLogo = watermarkKindSelect.value === 'logo';
+  const logo = getWatermarkLogo();
+  watermarkKindSelect.disabled = !enabled;
+  for (const input of [watermarkTextInput, watermarkFontSelect, watermarkColorInput, watermarkShadowInput]) {
+    input.disabled = !enabled || isLogo;
+  }
+  watermarkLogoBtn.disabled = !enabled || !isLogo;
+  watermarkLogoInfo.textContent = logo ? `ロゴ: ${logo.type.replace('image/', '').toUpperCase()} ${formatBytes(logo.size)}` : 'ロゴ: 未選択';
+  for (const input of [watermarkPositionSelect, watermarkScaleInput, watermarkOpacityInput, watermarkMarginInput, watermarkTileInput]) {
+    input.disabled = !enabled;
+  }
+  // 敷き詰める場合は位置・余白を使わない
+  watermarkPositionSelect.disabled ||= watermarkTileInput.checked;
+  watermarkMarginInput.disabled ||= watermarkTileInput.checked;
+  watermarkScaleValue.textContent = `${watermarkScaleInput.value}%`;
+  watermarkOpacityValue.textContent = `${Math.round(Number(watermarkOpacityInput.value) * 100)}%`;
+}
+
+function getConversionOptions(): ConversionOptions {
+  return {
+    format: (formatSelect.value as FormatChoice) ?? 'webp',
+    autoFormat: { minSsim: Math.min(1, Math.max(0, Number(autoMinSsimInput.value) || DEFAULT_AUTO_FORMAT_OPTIONS.minSsim)) },
+    quality: Number(qualityInput.value),
+    resize: getResizeOptions(),
+    sharpen: getSharpenOptions(),
+    encoder: getEncoderOptions(),
+    metadata: (metadataModeSelect.value as MetadataMode) || 'strip',
+    targetSize: getTargetSizeOptions(),
+    watermark: getWatermarkOptions(),
+  };
+}
+
+// プリセットの対象となる設定要素（id を持つ入力欄・選択欄）
+function getPresetControls(): (HTMLInputElement | HTMLSelectElement)[] {
+  return Array.from(
+    controlsSection.querySelectorAll<HTMLInputElement | HTMLSelectElement>('input[id], select[id]')
+  ).filter(el => !el.hasAttribute('data-preset-ignore'));
+}
+
+function collectPresetValues(): PresetValues {
+  const values: PresetValues = {};
+  for (const el of getPresetControls()) {
+    values[el.id] = el instanceof HTMLInputElement && el.type === 'checkbox' ? el.checked : el.value;
+  }
+  return values;
+}
+
+/**
+ * プリセットの値を操作パネルに反映
+ * 現在の画面にない項目や選択肢は無視し、プリセットにない項目は現在の値のまま残す
+ */
+function applyPresetValues(values: PresetValues) {
+  for (const el of getPresetControls()) {
+    const value = values[el.id];
+    if (value === undefined) continue;
+    if (el instanceof HTMLInputElement && el.type === 'checkbox') {
+      el.checked = Boolean(value);
+    } else if (el instanceof HTMLSelectElement) {
+      if (Array.from(el.options).some(opt => opt.value === String(value))) el.value = String(value);
+    } else {
+      el.value = String(value);
+    }
+  }
+  updateQualityUI();
+  updateResizeUI();
+  updateSharpenUI();
+  updateEncoderUI();
+  updateResponsiveUI();
+  updateWatermarkUI();
+  updateKeepOriginalUI();
+}
+
+function updatePresetSelector(selected = presetSelect.value) {
+  presetSelect.innerHTML = '<option value="">（未選択）</option>';
+  for (const preset of presetStore.list()) {
+    const option = document.createElement('option');
+    option.value = preset.name;
+    option.textContent = preset.name;
+    presetSelect.appendChild(option);
+  }
+  presetSelect.value = presetStore.get(selected) ? selected : '';
+  presetDeleteBtn.disabled = presetSelect.value === '';
+}
+
+function setupPresets() {
+  presetSelect.addEventListener('change', () => {
+    const preset = presetStore.get(presetSelect.value);
+    presetDeleteBtn.disabled = !preset;
+    presetStore.setLastUsed(preset?.name ?? null);
+    if (!preset) return;
+    applyPresetValues(preset.values);
+    reprocessAll();
+  });
+  presetSaveBtn.addEventListener('click', () => {
+    const name = window.prompt('プリセット名を入力してください（同名のプリセットは上書きされます）', presetSelect.value)?.trim();
+    if (!name) return;
+    try {
+      presetStore.save(name, collectPresetValues());
+    } catch (err) {
+      window.alert(err instanceof Error ? err.message : 'プリセットを保存できませんでした');
+      return;
+    }
+    presetStore.setLastUsed(name);
+    updatePresetSelector(name);
+  });
+  presetDeleteBtn.addEventListener('click', () => {
+    const name = presetSelect.value;
+    if (!name || !window.confirm(`プリセット「${name}」を削除しますか？`)) return;
+    presetStore.remove(name);
+    updatePresetSelector('');
+  });
+  presetExportBtn.addEventListener('click', () => {
+    const blob = new Blob([presetStore.exportJson()], { type: 'application/json' });
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = 'image-sharpener-presets.json';
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(a.href), 0);
+  });
+  presetImportBtn.addEventListener('click', () => presetImportInput.click());
+  presetImportInput.addEventListener('change', async () => {
+    const file = presetImportInput.files?.[0];
+    presetImportInput.value = '';
+    if (!file) return;
+    try {
+      const count = presetStore.importJson(await file.text());
+      updatePresetSelector();
+      window.alert(`${count} 件のプリセットを読み込みました`);
+    } catch (err) {
+      window.alert(err instanceof Error ? err.message : 'プリセットの読み込みに失敗しました');
+    }
+  });
+}
+
+// 追加した件数と、画像以外でスキップしたファイル・展開できなかった ZIP を表示
+function showInputSummary({ files, skipped, errors }: CollectResult) {
+  const lines: string[] = [];
+  if (skipped.length === 0) {
+    if (files.length > 0) lines.push(`${files.length} 件の画像を追加しました`);
+  } else {
+    const examples = skipped.slice(0, 3).join('、') + (skipped.length > 3 ? ' ほか' : '');
+    lines.push(`${files.length} 件の画像を追加し、画像以外の ${skipped.length} 件をスキップしました（${examples}）`);
+  }
+  for (const error of errors) lines.push(`ZIP を展開できませんでした: ${error}`);
+  inputSummary.textContent = lines.join('\n');
+}
+
+// 投入した画像はすぐに待機中として一覧に加え、1 件ずつ変換結果に置き換える
+async function handleFiles(collected: CollectResult) {
+  showInputSummary(collected);
+  if (collected.files.length === 0) return;
+  const images = collected.files.map(createQueuedImage);
+  queue.push(...images);
+  // 元ファイルの保存を待たずに変換を始める（同じストアへの書き込みは順に実行される）
+  persistNewImages(images);
+  await runBatch(images);
 }
 
 function setupDnD() {
@@ -328,12 +1193,38 @@ function setupDnD() {
   dropzone.addEventListener('drop', (e) => {
     e.preventDefault();
     const dt = (e as DragEvent).dataTransfer;
-    handleFiles(dt?.files ?? null);
+    if (!dt) return;
+    // フォルダはサブフォルダまでたどり、相対パスを保持して追加
+    collectFromDataTransfer(dt)
+      .then(handleFiles)
+      .catch((err) => {
+        console.error('ドロップされたファイルの読み込みに失敗しました', err);
+        inputSummary.textContent = 'ドロップされたファイルを読み込めませんでした';
+      });
+  });
+}
+
+/**
+ * ページ内のどこで貼り付けても画像を追加
+ * テキスト入力欄への文字の貼り付けは妨げない（画像が含まれる場合のみ横取りする）
+ */
+function setupPaste() {
+  document.addEventListener('paste', (e) => {
+    const data = e.clipboardData;
+    if (!data) return;
+    const files = extractPastedFiles(data);
+    if (files.length === 0) return;
+    e.preventDefault();
+    collectFromFileList(files).then(handleFiles);
   });
 }
 
 function setupInputs() {
-  fileInput.addEventListener('change', () => handleFiles(fileInput.files));
+  fileInput.addEventListener('change', () => collectFromFileList(fileInput.files).then(handleFiles));
+  folderInput.addEventListener('change', () => {
+    collectFromFileList(folderInput.files).then(handleFiles);
+    folderInput.value = '';
+  });
   qualityInput.addEventListener('input', () => {
     updateQualityUI();
   });
@@ -346,9 +1237,124 @@ function setupInputs() {
     updateQualityUI();
     reprocessAll();
   });
+  autoMinSsimInput.addEventListener('change', () => reprocessAll());
   retryFailedBtn.addEventListener('click', () => {
     reprocessFailedOnly();
   });
+
+  // 目標サイズモード切替・設定変更時は再エンコード
+  sizeModeSelect.addEventListener('change', () => {
+    updateQualityUI();
+    reprocessAll();
+  });
+  targetSizeInput.addEventListener('change', () => reprocessAll());
+  targetDownscaleInput.addEventListener('change', () => reprocessAll());
+
+  // リサイズ設定変更時は再エンコード
+  resizeModeSelect.addEventListener('change', () => {
+    updateResizeUI();
+    reprocessAll();
+  });
+  for (const input of [resizeWidthInput, resizeHeightInput, resizePercentInput, resizeFitSelect, resizeNoEnlargeInput]) {
+    input.addEventListener('change', () => reprocessAll());
+  }
+
+  // シャープ化設定は品質スライダーと同様、操作中は表示更新のみ・確定時に再エンコード
+  for (const input of [sharpenAmountInput, sharpenRadiusInput, sharpenThresholdInput]) {
+    input.addEventListener('input', () => updateSharpenUI());
+    input.addEventListener('change', () => reprocessAll());
+  }
+  sharpenPostResizeInput.addEventListener('change', () => reprocessAll());
+
+  // エンコーダ設定変更時は再エンコード（対応状況表示のバックエンド欄も更新）
+  encoderPreferenceSelect.addEventListener('change', () => {
+    reprocessAll();
+    if (browserCompatibilitySection.style.display === 'block') showBrowserCompatibility();
+  });
+  for (const input of [avifSpeedInput, pngLevelInput, pngColorsInput]) {
+    input.addEventListener('input', () => updateEncoderUI());
+  }
+  for (const input of [jpegProgressiveInput, chromaSubsamplingSelect, avifSpeedInput, pngLevelInput, pngColorsInput, pngDitherInput]) {
+    input.addEventListener('change', () => reprocessAll());
+  }
+  pngQuantizeInput.addEventListener('change', () => {
+    updateEncoderUI();
+    updateQualityUI();
+    reprocessAll();
+  });
+
+  // メタデータ設定変更時は再エンコード
+  metadataModeSelect.addEventListener('change', () => reprocessAll());
+
+  // 透過部分の背景色の変更時は再エンコード（塗りつぶすのは JPEG で出力する場合のみ）
+  for (const input of [matteModeSelect, matteColorInput]) {
+    input.addEventListener('change', () => {
+      updateEncoderUI();
+      reprocessAll();
+    });
+  }
+
+  // レスポンシブ画像セットの設定変更時は再エンコード（sizes はマークアップのみに影響）
+  responsiveEnabledInput.addEventListener('change', () => {
+    updateResponsiveUI();
+    reprocessAll();
+  });
+  for (const input of [responsiveWidthsInput, ...responsiveFormatInputs]) {
+    input.addEventListener('change', () => reprocessAll());
+  }
+  responsiveSizesInput.addEventListener('change', () => {
+    const sizes = responsiveSizesInput.value.trim() || '100vw';
+    for (const item of queue) if (item.responsiveVariants) item.responsiveSizes = sizes;
+  });
+
+  // 透かしの設定変更時は再エンコード（スライダーは操作中は表示更新のみ）
+  for (const input of [watermarkScaleInput, watermarkOpacityInput]) {
+    input.addEventListener('input', () => updateWatermarkUI());
+  }
+  for (const input of [
+    watermarkEnabledInput, watermarkKindSelect, watermarkTextInput, watermarkFontSelect, watermarkColorInput,
+    watermarkShadowInput, watermarkPositionSelect, watermarkScaleInput, watermarkOpacityInput, watermarkMarginInput,
+    watermarkTileInput,
+  ]) {
+    input.addEventListener('change', () => {
+      updateWatermarkUI();
+      reprocessAll();
+    });
+  }
+  watermarkLogoBtn.addEventListener('click', () => watermarkLogoFileInput.click());
+  watermarkLogoFileInput.addEventListener('change', async () => {
+    const file = watermarkLogoFileInput.files?.[0];
+    watermarkLogoFileInput.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      window.alert('ロゴには画像ファイルを選択してください');
+      return;
+    }
+    if (file.size > WATERMARK_LOGO_MAX_BYTES) {
+      window.alert(`ロゴ画像は ${formatBytes(WATERMARK_LOGO_MAX_BYTES)} 以下にしてください（プリセットに保存するため）`);
+      return;
+    }
+    watermarkLogoInput.value = await readAsDataUrl(file);
+    updateWatermarkUI();
+    reprocessAll();
+  });
+
+  // 元画像を維持する条件の変更時は再エンコード（元画像と比べるのは変換結果のため）
+  keepOriginalInput.addEventListener('change', () => {
+    updateKeepOriginalUI();
+    reprocessAll();
+  });
+  keepOriginalMinSavingsInput.addEventListener('change', () => reprocessAll());
+
+  reportCsvBtn.addEventListener('click', () => {
+    downloadReport(buildCsvReport(buildReportRows()), 'text/csv', 'csv');
+  });
+  reportJsonBtn.addEventListener('click', () => {
+    downloadReport(buildJsonReport(buildReportRows()), 'application/json', 'json');
+  });
+
+  // ファイル名テンプレートは再エンコード不要（名前とプレビューのみ更新）
+  filenameTemplateInput.addEventListener('input', () => updateResultFilenames());
   
   // ブラウザ対応状況表示ボタン
   showCompatibilityBtn.addEventListener('click', () => {
@@ -360,138 +1366,264 @@ function setupInputs() {
   });
 }
 
+let zipAbort: AbortController | null = null;
+
 async function downloadAll() {
-  // 集合ZIPを作る
+  if (zipAbort) return;
+  // フォルダから追加した画像は同じフォルダ構成で格納
+  const items = queue.filter(item => item.processedBlob && item.resultPath);
+  const entries: ZipEntry[] = items.map(item => ({ path: item.resultPath!, blob: item.processedBlob! }));
+  if (entries.length === 0) return;
+
+  // レスポンシブ画像セットは派生画像を出力ファイルと同じフォルダに入れ、マニフェストを同梱
+  const manifest: ResponsiveManifestImage[] = [];
+  for (const item of items) {
+    if (!item.responsiveVariants) continue;
+    const dir = getDirectory(item.resultPath!);
+    const variants = item.responsiveVariants.filter(v => v.filename);
+    entries.push(...variants.map(v => ({ path: dir + v.filename!, blob: v.blob })));
+    manifest.push({
+      source: item.relativePath,
+      sizes: item.responsiveSizes ?? '100vw',
+      variants: variants.map(v => ({ path: dir + v.filename!, format: v.format, width: v.width, height: v.height, bytes: v.blob.size })),
+      html: getResponsiveMarkup(item),
+    });
+  }
+  if (manifest.length > 0) {
+    entries.push({ path: 'manifest.json', blob: new Blob([buildManifest(manifest)], { type: 'application/json' }) });
+  }
+
+  // 保存先の選択はクリック直後に行う必要があるため、他の非同期処理より先に開く
+  let target;
+  try {
+    target = await openZipTarget('images.zip');
+  } catch (e) {
+    if (e instanceof DOMException && e.name === 'AbortError') return;
+    console.error('保存先を開けませんでした', e);
+    return;
+  }
+
+  zipAbort = new AbortController();
   setGlobalBusy(true);
+  downloadAllBtn.disabled = true;
+  zipProgress.hidden = false;
   try {
-    const files: Record<string, Uint8Array> = {};
-    for (const item of queue) {
-      if (!item.processedBlob || !item.resultFilename) continue;
-      const arrayBuffer = await item.processedBlob.arrayBuffer();
-      files[item.resultFilename] = new Uint8Array(arrayBuffer);
+    const blob = await writeZip(entries, target, {
+      signal: zipAbort.signal,
+      onProgress: ({ bytesDone, bytesTotal, filesDone, filesTotal }) => {
+        zipProgressBar.value = bytesTotal > 0 ? bytesDone / bytesTotal : 1;
+        zipProgressText.textContent = `ZIP 作成中 ${filesDone} / ${filesTotal} 件（${formatBytes(bytesDone)} / ${formatBytes(bytesTotal)}）`;
+      },
+    });
+    // ファイルへ直接書き出した場合は blob は null
+    if (blob) {
+      const a = document.createElement('a');
+      a.href = URL.createObjectURL(blob);
+      a.download = 'images.zip';
+      a.click();
+      setTimeout(() => URL.revokeObjectURL(a.href), 0);
     }
-    const zipped: Uint8Array = await new Promise((resolve, reject) =>
-      zip(files, { level: 6 }, (err, data) => (err ? reject(err) : resolve(data!)))
-    );
-    const blob = new Blob([zipped], { type: 'application/zip' });
-    const a = document.createElement('a');
-    a.href = URL.createObjectURL(blob);
-    a.download = 'images.zip';
-    a.click();
-    setTimeout(() => URL.revokeObjectURL(a.href), 0);
   } catch (e) {
-    console.error('ZIP作成中にエラーが発生しました', e);
+    if (!(e instanceof DOMException && e.name === 'AbortError')) {
+      console.error('ZIP作成中にエラーが発生しました', e);
+    }
   } finally {
+    zipAbort = null;
+    zipProgress.hidden = true;
     setGlobalBusy(false);
+    updateDownloadAllState();
   }
 }
 
+zipCancelBtn.addEventListener('click', () => {
+  zipAbort?.abort();
+});
+
+sessionClearBtn.addEventListener('click', () => {
+  clearSession();
+});
+
+batchCancelBtn.addEventListener('click', () => {
+  for (const image of queue) cancelImage(image);
+  refreshList();
+  updateBatchProgress();
+});
+
 downloadAllBtn.addEventListener('click', () => {
   downloadAll();
 });
 
 setupDnD();
+setupPaste();
 setupInputs();
+setupPresets();
 
-async function reprocessAll() {
-  if (isReprocessing || queue.length === 0) return;
-  isReprocessing = true;
-  downloadAllBtn.disabled = true;
-  setGlobalBusy(true);
-  const format = (formatSelect.value as OutputFormat) ?? 'webp';
-  const quality = Number(qualityInput.value);
-  try {
-    await mapWithConcurrency(queue, DEFAULT_CONCURRENCY, async (image) => {
-      try {
-        const imgEl = await decodeImageFromUrl(image.originalUrl);
-        const canvas = createCanvasFromImage(imgEl);
-        const result = await encodeCanvas(canvas, format, quality);
-        
-        if (image.processedUrl) URL.revokeObjectURL(image.processedUrl);
-        
-        const actualFormat = result.actualFormat;
-        const ext = getExtension(actualFormat);
-        const nameWithoutExt = image.file.name.replace(/\.[^.]+$/, '');
-        
-        image.processedBlob = result.blob;
-        image.processedSize = result.blob.size;
-        image.resultFilename = `${nameWithoutExt}.${ext}`;
-        image.processedUrl = URL.createObjectURL(result.blob);
-        image.error = undefined;
-        
-        // フォールバック情報を更新
-        if (result.usedFallback) {
-          image.usedFallback = {
-            requestedFormat: result.usedFallback.requestedFormat,
-            actualFormat: actualFormat,
-            reason: result.usedFallback.reason
-          };
-        } else {
-          image.usedFallback = undefined;
-        }
-        
-      } catch (err) {
-        image.error = err instanceof Error ? err.message : 'Unknown error';
-        image.usedFallback = undefined;
+/**
+ * 画像をまとめて変換し、1 件終わるごとに一覧を更新
+ * 待機中・変換中のアイテムを含む場合は古い変換を中断し、新しい設定で変換し直す
+ */
+async function runBatch(images: QueuedImage[]) {
+  if (images.length === 0) return;
+  const options = getConversionOptions();
+  // 実行中の変換がすべて置き換わる場合は進捗を数え直す
+  if (queue.every(q => !q.abort || images.includes(q))) {
+    batchRun = { startedAt: performance.now(), completed: 0 };
+  }
+  const controllers = new Map<QueuedImage, AbortController>();
+  for (const image of images) {
+    image.abort?.abort();
+    image.abort = new AbortController();
+    image.status = 'queued';
+    controllers.set(image, image.abort);
+  }
+  refreshList();
+  updateBatchProgress();
+
+  await mapWithConcurrency(images, DEFAULT_CONCURRENCY, async (image) => {
+    const controller = controllers.get(image)!;
+    // 待機中にキャンセル・再投入されたものは飛ばす
+    if (controller.signal.aborted) return;
+    image.status = 'processing';
+    refreshItem(image);
+    try {
+      await convertImage(image, options, controller.signal);
+    } catch (err) {
+      // 中断した場合の状態は cancelImage・再投入側で設定済み
+      if (controller.signal.aborted) return;
+      image.error = err instanceof Error ? err.message : 'Unknown error';
+      image.usedFallback = undefined;
+    } finally {
+      if (image.abort === controller) {
+        image.abort = undefined;
+        image.status = image.error ? 'error' : 'done';
+        persistImage(image);
+        batchRun.completed++;
+        refreshItem(image);
+        updateBatchProgress();
       }
-    });
-  } finally {
-    isReprocessing = false;
-    refreshList();
-    setGlobalBusy(false);
+    }
+  });
+}
+
+/**
+ * 待機中・変換中の変換を中断
+ * 以前の変換結果があればそのまま残し、ない場合はキャンセル済みとして表示する
+ */
+function cancelImage(image: QueuedImage) {
+  if (!image.abort) return;
+  image.abort.abort();
+  image.abort = undefined;
+  image.status = image.error ? 'error' : image.processedBlob ? 'done' : 'cancelled';
+  persistImage(image);
+}
+
+// 全体の進捗（完了件数・残り時間）を表示
+function updateBatchProgress() {
+  const pending = queue.filter(q => q.abort).length;
+  setGlobalBusy(pending > 0);
+  batchProgress.hidden = pending === 0;
+  if (pending === 0) {
+    updateSessionInfo();
+    return;
   }
+  const total = batchRun.completed + pending;
+  batchProgressBar.max = total;
+  batchProgressBar.value = batchRun.completed;
+  // 並列で処理するため、1 件あたりの平均時間は経過時間を完了件数で割って求める
+  const elapsed = (performance.now() - batchRun.startedAt) / 1000;
+  const eta = batchRun.completed > 0 ? `・残り約 ${formatDuration((elapsed / batchRun.completed) * pending)}` : '';
+  batchProgressText.textContent = `変換中 ${batchRun.completed} / ${total} 件${eta}`;
 }
 
-async function reprocessFailedOnly() {
-  if (isReprocessing) return;
-  const failed = queue.filter(q => q.error);
-  if (failed.length === 0) return;
-  isReprocessing = true;
-  downloadAllBtn.disabled = true;
-  retryFailedBtn.disabled = true;
-  setGlobalBusy(true);
-  const format = (formatSelect.value as OutputFormat) ?? 'webp';
-  const quality = Number(qualityInput.value);
-  try {
-    await mapWithConcurrency(failed, DEFAULT_CONCURRENCY, async (image) => {
-      try {
-        const imgEl = await decodeImageFromUrl(image.originalUrl);
-        const canvas = createCanvasFromImage(imgEl);
-        const result = await encodeCanvas(canvas, format, quality);
-        
-        if (image.processedUrl) URL.revokeObjectURL(image.processedUrl);
-        
-        const actualFormat = result.actualFormat;
-        const ext = getExtension(actualFormat);
-        const nameWithoutExt = image.file.name.replace(/\.[^.]+$/, '');
-        
-        image.processedBlob = result.blob;
-        image.processedSize = result.blob.size;
-        image.resultFilename = `${nameWithoutExt}.${ext}`;
-        image.processedUrl = URL.createObjectURL(result.blob);
-        image.error = undefined;
-        
-        // フォールバック情報を更新
-        if (result.usedFallback) {
-          image.usedFallback = {
-            requestedFormat: result.usedFallback.requestedFormat,
-            actualFormat: actualFormat,
-            reason: result.usedFallback.reason
-          };
-        } else {
-          image.usedFallback = undefined;
-        }
-        
-      } catch (err) {
-        image.error = err instanceof Error ? err.message : 'Unknown error';
-        image.usedFallback = undefined;
-      }
-    });
-  } finally {
-    isReprocessing = false;
-    refreshList();
-    setGlobalBusy(false);
+function formatDuration(seconds: number): string {
+  const s = Math.max(1, Math.round(seconds));
+  return s < 60 ? `${s} 秒` : `${Math.floor(s / 60)} 分 ${s % 60} 秒`;
+}
+
+// 保存する項目（object URL・実行中の変換は再読み込み後に作り直す）
+type PersistedImage = Omit<QueuedImage, 'file' | 'originalUrl' | 'processedUrl' | 'abort'>;
+
+function toPersisted(image: QueuedImage): PersistedImage {
+  const { file: _file, originalUrl: _originalUrl, processedUrl: _processedUrl, abort: _abort, ...rest } = image;
+  return rest;
+}
+
+async function persistNewImages(images: QueuedImage[]) {
+  let failed = false;
+  for (const image of images) {
+    if (!(await sessionStore.add(toPersisted(image), image.file))) failed = true;
+  }
+  updateSessionInfo(failed);
+}
+
+function persistImage(image: QueuedImage) {
+  sessionStore.update(toPersisted(image)).then(ok => {
+    if (!ok) updateSessionInfo(true);
+  });
+}
+
+// 保存件数とストレージ使用量を表示（保存に失敗した場合は警告も表示）
+async function updateSessionInfo(saveFailed = false) {
+  const { count, usage, quota } = await sessionStore.usage();
+  const lines = [`保存中: ${count} 件`];
+  if (usage !== undefined) lines.push(`使用量: ${formatBytes(usage)}${quota ? ` / ${formatBytes(quota)}` : ''}`);
+  if (saveFailed) lines.push('⚠️ 一部を保存できませんでした（容量不足など）');
+  sessionInfo.textContent = lines.join('\n');
+  sessionClearBtn.disabled = count === 0 && queue.length === 0;
+}
+
+/**
+ * 前回のセッションを復元
+ * 変換結果があるアイテムはそのまま表示し、待機中・変換中だったアイテムは変換し直す
+ */
+async function restoreSession() {
+  const restored = await sessionStore.load<PersistedImage>();
+  if (restored.length === 0) {
+    updateSessionInfo();
+    return;
   }
+  const images = restored.map(({ record, file }): QueuedImage => ({
+    ...record,
+    file,
+    originalUrl: URL.createObjectURL(file),
+    processedUrl: record.processedBlob ? URL.createObjectURL(record.processedBlob) : undefined,
+  }));
+  nextPosition = Math.max(nextPosition, ...images.map(image => image.position + 1));
+  // 復元を待つ間に投入された画像より前に並べる
+  queue.unshift(...images);
+  refreshList();
+  inputSummary.textContent = `前回のセッションから ${images.length} 件を復元しました`;
+  await runBatch(images.filter(image => image.status === 'queued' || image.status === 'processing'));
+  updateSessionInfo();
+}
+
+// キューと保存したセッションをすべて消去
+async function clearSession() {
+  if (!window.confirm('キューと保存したセッションをすべて消去しますか？')) return;
+  for (const item of queue) {
+    cancelImage(item);
+    URL.revokeObjectURL(item.originalUrl);
+    if (item.processedUrl) URL.revokeObjectURL(item.processedUrl);
+  }
+  queue.length = 0;
+  await sessionStore.clear();
+  refreshList();
+  updateBatchProgress();
+  inputSummary.textContent = '';
+}
+
+// 設定変更時は全アイテムを再変換（実行中の古い設定での変換は中断）
+function reprocessAll() {
+  return runBatch([...queue]);
+}
+
+function reprocessFailedOnly() {
+  return runBatch(queue.filter(q => q.error));
+}
+
+// 個別設定・編集内容を変更したアイテムのみ再エンコード
+function reprocessItem(image: QueuedImage) {
+  return runBatch([image]);
 }
 
 // 起動時UI同期、ブラウザ機能検出、クリーンアップ
@@ -503,8 +1635,33 @@ async function initializeApp() {
   } catch (error) {
     console.warn('ブラウザ機能検出に失敗しました:', error);
   }
+
+  // 前回使用したプリセットを復元（出力形式の選択肢が揃ってから反映する）
+  const lastUsed = presetStore.getLastUsed();
+  updatePresetSelector(lastUsed ?? '');
+  const preset = lastUsed ? presetStore.get(lastUsed) : undefined;
+  if (preset) {
+    applyPresetValues(preset.values);
+    // 検出中に投入された画像があれば復元した設定で変換し直す
+    reprocessAll();
+  }
   
   updateQualityUI();
+  updateResizeUI();
+  updateSharpenUI();
+  updateEncoderUI();
+  updateResponsiveUI();
+  updateWatermarkUI();
+  updateKeepOriginalUI();
+
+  // 再読み込み前のキューを復元（設定の復元後に行い、復元した変換結果を再変換しない）
+  await restoreSession();
+
+  // オフライン用の Service Worker を登録し、共有・「このアプリで開く」で渡された画像を追加
+  registerServiceWorker();
+  onLaunchFiles(files => collectFromFileList(files).then(handleFiles));
+  const shared = await takeSharedFiles();
+  if (shared.length > 0) collectFromFileList(shared).then(handleFiles);
 }
 
 // フォーマットセレクターの更新
@@ -524,6 +1681,8 @@ function updateFormatSelector(formatInfos: FormatInfo[]) {
     let label = info.label;
     if (!info.supported && info.fallbackInfo) {
       label += ` → ${info.fallbackInfo.format.toUpperCase()}自動切替`;
+    } else if (!info.supported && info.backend === 'wasm') {
+      label += '（WASM）';
     }
     
     option.textContent = label;
@@ -531,6 +1690,12 @@ function updateFormatSelector(formatInfos: FormatInfo[]) {
     
     formatSelect.appendChild(option);
   });
+
+  // 対応している形式をすべて試すため、個別の対応状況によらず選べる
+  const auto = document.createElement('option');
+  auto.value = 'auto';
+  auto.textContent = '自動（最も小さい形式）';
+  formatSelect.appendChild(auto);
   
   // 元の選択を復元（可能なら）
   if (Array.from(formatSelect.options).some(opt => opt.value === currentValue)) {
@@ -541,20 +1706,25 @@ function updateFormatSelector(formatInfos: FormatInfo[]) {
 // ブラウザ対応状況の表示
 async function showBrowserCompatibility() {
   try {
-    const formatInfos = await browserCapabilities.getFormatInfoList();
+    const formatInfos = await browserCapabilities.getFormatInfoList(getEncoderOptions().preference);
 
     let html = '<table class="compatibility-table">';
-    html += '<thead><tr><th>形式</th><th>対応状況</th><th>備考</th></tr></thead>';
+    html += '<thead><tr><th>形式</th><th>対応状況</th><th>エンコーダ</th><th>Worker処理</th><th>備考</th></tr></thead>';
     html += '<tbody>';
     
     formatInfos.forEach(info => {
       const statusIcon = info.supported ? '✅' : '❌';
       const statusText = info.supported ? '対応' : '未対応';
       const notes = info.fallbackInfo ? info.fallbackInfo.reason : '-';
+      const workerText = info.workerSupported === undefined
+        ? '➖ 利用不可'
+        : info.workerSupported ? '✅ 対応' : '❌ メインスレッドで処理';
       
       html += `<tr>`;
       html += `<td><strong>${info.format.toUpperCase()}</strong></td>`;
       html += `<td>${statusIcon} ${statusText}</td>`;
+      html += `<td>${info.backend ? getEncoderLabel(info.format, info.backend) : '-'}</td>`;
+      html += `<td>${workerText}</td>`;
       html += `<td>${notes}</td>`;
       html += `</tr>`;
     });
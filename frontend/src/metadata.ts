@@ -0,0 +1,579 @@
+/**
+ * メタデータ処理モジュール
+ * 入力画像（JPEG / PNG / WebP）から EXIF / XMP / ICC プロファイルを読み取り、
+ * 設定に応じて出力画像（JPEG / PNG / WebP）へ書き戻す
+ */
+
+import { strFromU8, strToU8, unzlibSync, zlibSync } from 'fflate';
+import type { OutputFormat } from './browserCapabilities.js';
+import { canvasToBlob, createCanvas } from './canvas.js';
+
+/**
+ * メタデータの扱い
+ * - strip: すべて削除
+ * - keep: すべて保持
+ * - stripGps: GPS 位置情報のみ削除
+ */
+export type MetadataMode = 'strip' | 'keep' | 'stripGps';
+
+export interface ImageMetadata {
+  /** EXIF（TIFF ヘッダから始まるデータ） */
+  exif?: Uint8Array;
+  xmp?: string;
+  icc?: Uint8Array;
+  /** EXIF の Orientation（1〜8、なければ 1） */
+  orientation: number;
+  hasGps: boolean;
+}
+
+export interface MetadataReport {
+  kept: string[];
+  removed: string[];
+}
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const ICC_HEADER = 'ICC_PROFILE\0';
+export const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+// APP セグメントの最大長（長さフィールド自身の 2 バイトを含む）
+const JPEG_SEGMENT_MAX = 0xffff;
+const ICC_CHUNK_MAX = JPEG_SEGMENT_MAX - 2 - ICC_HEADER.length - 2;
+// XMP 内の GPS 関連のプロパティ
+const XMP_GPS_PATTERN = /(?:exif|exifEX):GPS/;
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_GPS_IFD = 0x8825;
+// TIFF の型ごとのバイト数
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const LABEL_EXIF = 'EXIF';
+const LABEL_GPS = 'GPS位置情報';
+const LABEL_XMP = 'XMP';
+const LABEL_ICC = 'ICCプロファイル';
+
+function startsWith(bytes: Uint8Array, offset: number, text: string): boolean {
+  if (offset + text.length > bytes.length) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const total = parts.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+// ---- EXIF (TIFF) ----
+
+type TiffReader = {
+  view: DataView;
+  little: boolean;
+  u16: (offset: number) => number;
+  u32: (offset: number) => number;
+};
+
+function createTiffReader(exif: Uint8Array): TiffReader | null {
+  if (exif.length < 8) return null;
+  const view = new DataView(exif.buffer, exif.byteOffset, exif.byteLength);
+  const order = view.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const little = order === 0x4949;
+  return {
+    view,
+    little,
+    u16: (offset) => view.getUint16(offset, little),
+    u32: (offset) => view.getUint32(offset, little),
+  };
+}
+
+/**
+ * IFD0 内の指定タグのエントリ位置を返す（見つからなければ -1）
+ */
+function findIfd0Entry(reader: TiffReader, tag: number): number {
+  const ifd0 = reader.u32(4);
+  if (ifd0 + 2 > reader.view.byteLength) return -1;
+  const count = reader.u16(ifd0);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd0 + 2 + i * 12;
+    if (entry + 12 > reader.view.byteLength) return -1;
+    if (reader.u16(entry) === tag) return entry;
+  }
+  return -1;
+}
+
+function readOrientation(exif: Uint8Array): number {
+  try {
+    const reader = createTiffReader(exif);
+    if (!reader) return 1;
+    const entry = findIfd0Entry(reader, TAG_ORIENTATION);
+    if (entry < 0) return 1;
+    const value = reader.u16(entry + 8);
+    return value >= 1 && value <= 8 ? value : 1;
+  } catch {
+    return 1;
+  }
+}
+
+function hasGpsIfd(exif: Uint8Array): boolean {
+  try {
+    const reader = createTiffReader(exif);
+    return reader !== null && findIfd0Entry(reader, TAG_GPS_IFD) >= 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Orientation を書き換えた EXIF のコピーを返す
+ * 画素に向きを反映済みの出力で二重に回転されないよう 1 にするために使う
+ */
+function withOrientation(exif: Uint8Array, orientation: number): Uint8Array {
+  const copy = exif.slice();
+  const reader = createTiffReader(copy);
+  if (!reader) return copy;
+  const entry = findIfd0Entry(reader, TAG_ORIENTATION);
+  if (entry >= 0) reader.view.setUint16(entry + 8, orientation, reader.little);
+  return copy;
+}
+
+/**
+ * GPS IFD を取り除いた EXIF のコピーを返す
+ * GPS IFD の内容をゼロで埋めたうえで、IFD0 から GPSInfo エントリを削除する
+ */
+function stripGpsFromExif(exif: Uint8Array): Uint8Array {
+  const copy = exif.slice();
+  const reader = createTiffReader(copy);
+  if (!reader) return copy;
+  const entry = findIfd0Entry(reader, TAG_GPS_IFD);
+  if (entry < 0) return copy;
+
+  const gpsOffset = reader.u32(entry + 8);
+  if (gpsOffset + 2 <= copy.length) {
+    const count = reader.u16(gpsOffset);
+    for (let i = 0; i < count; i++) {
+      const e = gpsOffset + 2 + i * 12;
+      if (e + 12 > copy.length) break;
+      const size = (TIFF_TYPE_SIZES[reader.u16(e + 2)] ?? 1) * reader.u32(e + 4);
+      if (size > 4) {
+        const valueOffset = reader.u32(e + 8);
+        copy.fill(0, valueOffset, Math.min(copy.length, valueOffset + size));
+      }
+    }
+    copy.fill(0, gpsOffset, Math.min(copy.length, gpsOffset + 2 + count * 12 + 4));
+  }
+
+  // 後続のエントリと次 IFD オフセットを 1 エントリ分前に詰める
+  const ifd0 = reader.u32(4);
+  const count = reader.u16(ifd0);
+  const end = ifd0 + 2 + count * 12 + 4;
+  copy.copyWithin(entry, entry + 12, end);
+  copy.fill(0, end - 12, end);
+  reader.view.setUint16(ifd0, count - 1, reader.little);
+  return copy;
+}
+
+function stripGpsFromXmp(xmp: string): string {
+  return xmp
+    .replace(/\s(?:exif|exifEX):GPS\w+="[^"]*"/g, '')
+    .replace(/<(exif|exifEX):GPS(\w+)[^>]*>[\s\S]*?<\/\1:GPS\2>/g, '')
+    .replace(/<(?:exif|exifEX):GPS\w+[^>]*\/>/g, '');
+}
+
+// ---- 読み取り ----
+
+function parseJpeg(bytes: Uint8Array, meta: ImageMetadata) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const iccChunks: { seq: number; data: Uint8Array }[] = [];
+  let i = 2;
+  while (i + 4 <= bytes.length) {
+    if (bytes[i] !== 0xff) break;
+    const marker = bytes[i + 1];
+    // フィルバイト
+    if (marker === 0xff) {
+      i++;
+      continue;
+    }
+    // SOS 以降は画像データ
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = view.getUint16(i + 2);
+    const start = i + 4;
+    const end = Math.min(bytes.length, i + 2 + length);
+    if (marker === 0xe1 && startsWith(bytes, start, EXIF_HEADER)) {
+      meta.exif = bytes.slice(start + EXIF_HEADER.length, end);
+    } else if (marker === 0xe1 && startsWith(bytes, start, XMP_HEADER)) {
+      meta.xmp = strFromU8(bytes.subarray(start + XMP_HEADER.length, end));
+    } else if (marker === 0xe2 && startsWith(bytes, start, ICC_HEADER)) {
+      iccChunks.push({
+        seq: bytes[start + ICC_HEADER.length],
+        data: bytes.slice(start + ICC_HEADER.length + 2, end),
+      });
+    }
+    i += 2 + length;
+  }
+  if (iccChunks.length > 0) {
+    iccChunks.sort((a, b) => a.seq - b.seq);
+    meta.icc = concat(iccChunks.map(c => c.data));
+  }
+}
+
+function parsePng(bytes: Uint8Array, meta: ImageMetadata) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let i = 8;
+  while (i + 8 <= bytes.length) {
+    const length = view.getUint32(i);
+    const type = strFromU8(bytes.subarray(i + 4, i + 8), true);
+    const data = bytes.subarray(i + 8, Math.min(bytes.length, i + 8 + length));
+    if (type === 'eXIf') {
+      meta.exif = data.slice();
+    } else if (type === 'iCCP') {
+      const nameEnd = data.indexOf(0);
+      if (nameEnd >= 0) meta.icc = unzlibSync(data.subarray(nameEnd + 2));
+    } else if (type === 'iTXt') {
+      const keywordEnd = data.indexOf(0);
+      if (keywordEnd >= 0 && strFromU8(data.subarray(0, keywordEnd), true) === 'XML:com.adobe.xmp') {
+        const compressed = data[keywordEnd + 1] === 1;
+        const langEnd = data.indexOf(0, keywordEnd + 3);
+        const keyEnd = data.indexOf(0, langEnd + 1);
+        const text = data.subarray(keyEnd + 1);
+        meta.xmp = strFromU8(compressed ? unzlibSync(text) : text);
+      }
+    } else if (type === 'IEND') {
+      break;
+    }
+    i += 12 + length;
+  }
+}
+
+function parseWebp(bytes: Uint8Array, meta: ImageMetadata) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let i = 12;
+  while (i + 8 <= bytes.length) {
+    const type = strFromU8(bytes.subarray(i, i + 4), true);
+    const length = view.getUint32(i + 4, true);
+    const data = bytes.subarray(i + 8, Math.min(bytes.length, i + 8 + length));
+    if (type === 'EXIF') {
+      // 一部のツールは JPEG と同じ "Exif\0\0" を付けて書き込む
+      meta.exif = startsWith(data, 0, EXIF_HEADER) ? data.slice(EXIF_HEADER.length) : data.slice();
+    } else if (type === 'XMP ') {
+      meta.xmp = strFromU8(data);
+    } else if (type === 'ICCP') {
+      meta.icc = data.slice();
+    }
+    i += 8 + length + (length & 1);
+  }
+}
+
+/**
+ * 入力画像のバイト列からメタデータを読み取る（非対応形式・破損時は空）
+ */
+export function parseMetadata(buffer: ArrayBuffer): ImageMetadata {
+  const bytes = new Uint8Array(buffer);
+  const meta: ImageMetadata = { orientation: 1, hasGps: false };
+  try {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      parseJpeg(bytes, meta);
+    } else if (PNG_SIGNATURE.every((b, i) => bytes[i] === b)) {
+      parsePng(bytes, meta);
+    } else if (startsWith(bytes, 0, 'RIFF') && startsWith(bytes, 8, 'WEBP')) {
+      parseWebp(bytes, meta);
+    }
+  } catch (err) {
+    console.warn('メタデータの読み取りに失敗しました:', err);
+  }
+  if (meta.exif) {
+    meta.orientation = readOrientation(meta.exif);
+    meta.hasGps = hasGpsIfd(meta.exif);
+  }
+  if (meta.xmp && XMP_GPS_PATTERN.test(meta.xmp)) {
+    meta.hasGps = true;
+  }
+  return meta;
+}
+
+// ---- 書き込み ----
+
+function jpegSegment(marker: number, payload: Uint8Array): Uint8Array {
+  if (payload.length + 2 > JPEG_SEGMENT_MAX) {
+    throw new RangeError(`JPEG のセグメントに収まりません（${payload.length} バイト）`);
+  }
+  const out = new Uint8Array(4 + payload.length);
+  out[0] = 0xff;
+  out[1] = marker;
+  new DataView(out.buffer).setUint16(2, payload.length + 2);
+  out.set(payload, 4);
+  return out;
+}
+
+function embedJpeg(bytes: Uint8Array, exif?: Uint8Array, xmp?: string, icc?: Uint8Array): Uint8Array<ArrayBuffer> {
+  const segments: Uint8Array[] = [];
+  if (exif) {
+    segments.push(jpegSegment(0xe1, concat([strToU8(EXIF_HEADER), exif])));
+  }
+  if (xmp) {
+    segments.push(jpegSegment(0xe1, concat([strToU8(XMP_HEADER), strToU8(xmp)])));
+  }
+  if (icc) {
+    const total = Math.ceil(icc.length / ICC_CHUNK_MAX);
+    for (let seq = 0; seq < total; seq++) {
+      const chunk = icc.subarray(seq * ICC_CHUNK_MAX, (seq + 1) * ICC_CHUNK_MAX);
+      segments.push(jpegSegment(0xe2, concat([strToU8(ICC_HEADER), new Uint8Array([seq + 1, total]), chunk])));
+    }
+  }
+
+  // SOI と JFIF(APP0) の直後に挿入する
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let insertAt = 2;
+  while (insertAt + 4 <= bytes.length && bytes[insertAt] === 0xff && bytes[insertAt + 1] === 0xe0) {
+    insertAt += 2 + view.getUint16(insertAt + 2);
+  }
+  return concat([bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt)]);
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * PNG のチャンク（長さ・種類・データ・CRC）を生成（減色した PNG の書き出しでも使う）
+ */
+export function pngChunk(type: string, data: Uint8Array): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(strToU8(type), 4);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+function embedPng(bytes: Uint8Array, exif?: Uint8Array, xmp?: string, icc?: Uint8Array): Uint8Array<ArrayBuffer> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const added: Uint8Array[] = [];
+  if (icc) {
+    added.push(pngChunk('iCCP', concat([strToU8('ICC Profile'), new Uint8Array([0, 0]), zlibSync(icc)])));
+  }
+  if (exif) {
+    added.push(pngChunk('eXIf', exif));
+  }
+  if (xmp) {
+    added.push(pngChunk('iTXt', concat([strToU8('XML:com.adobe.xmp'), new Uint8Array([0, 0, 0, 0, 0]), strToU8(xmp)])));
+  }
+
+  // IHDR の直後に挿入し、置き換え対象の既存チャンクは除く
+  const replaced = new Set(['eXIf', ...(icc ? ['iCCP', 'sRGB'] : [])]);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let i = 8;
+  while (i + 8 <= bytes.length) {
+    const length = view.getUint32(i);
+    const type = strFromU8(bytes.subarray(i + 4, i + 8), true);
+    const chunk = bytes.subarray(i, i + 12 + length);
+    if (!replaced.has(type)) parts.push(chunk);
+    if (type === 'IHDR') parts.push(...added);
+    i += 12 + length;
+  }
+  return concat(parts);
+}
+
+function riffChunk(type: string, data: Uint8Array): Uint8Array {
+  const padded = data.length + (data.length & 1);
+  const out = new Uint8Array(8 + padded);
+  out.set(strToU8(type), 0);
+  new DataView(out.buffer).setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+}
+
+function embedWebp(
+  bytes: Uint8Array,
+  size: { width: number; height: number },
+  exif?: Uint8Array,
+  xmp?: string,
+  icc?: Uint8Array
+): Uint8Array<ArrayBuffer> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let vp8x: Uint8Array | null = null;
+  const imageChunks: Uint8Array[] = [];
+  let hasAlpha = false;
+  let i = 12;
+  while (i + 8 <= bytes.length) {
+    const type = strFromU8(bytes.subarray(i, i + 4), true);
+    const length = view.getUint32(i + 4, true);
+    const chunk = bytes.subarray(i, i + 8 + length + (length & 1));
+    if (type === 'VP8X') {
+      vp8x = chunk.slice(8, 8 + length);
+    } else if (type !== 'ICCP' && type !== 'EXIF' && type !== 'XMP ') {
+      if (type === 'VP8L') {
+        // VP8L ヘッダの alpha_is_used ビット
+        hasAlpha = (view.getUint32(i + 9, true) >>> 28 & 1) === 1;
+      } else if (type === 'ALPH') {
+        hasAlpha = true;
+      }
+      imageChunks.push(chunk);
+    }
+    i += 8 + length + (length & 1);
+  }
+
+  // 拡張形式（VP8X）ヘッダを用意してフラグを立てる
+  if (!vp8x) {
+    vp8x = new Uint8Array(10);
+    const w = size.width - 1;
+    const h = size.height - 1;
+    vp8x.set([w & 0xff, (w >> 8) & 0xff, (w >> 16) & 0xff, h & 0xff, (h >> 8) & 0xff, (h >> 16) & 0xff], 4);
+  }
+  let flags = vp8x[0] & ~(0x20 | 0x08 | 0x04);
+  if (hasAlpha) flags |= 0x10;
+  if (icc) flags |= 0x20;
+  if (exif) flags |= 0x08;
+  if (xmp) flags |= 0x04;
+  vp8x[0] = flags;
+
+  const chunks = [
+    riffChunk('VP8X', vp8x),
+    ...(icc ? [riffChunk('ICCP', icc)] : []),
+    ...imageChunks,
+    ...(exif ? [riffChunk('EXIF', exif)] : []),
+    ...(xmp ? [riffChunk('XMP ', strToU8(xmp))] : []),
+  ];
+  const body = concat(chunks);
+  const header = new Uint8Array(12);
+  header.set(strToU8('RIFF'), 0);
+  new DataView(header.buffer).setUint32(4, 4 + body.length, true);
+  header.set(strToU8('WEBP'), 8);
+  return concat([header, body]);
+}
+
+/**
+ * 出力形式にメタデータを書き込めるか
+ */
+export function canEmbedMetadata(format: OutputFormat): boolean {
+  return format === 'jpeg' || format === 'png' || format === 'webp';
+}
+
+/**
+ * ICC プロファイルを保持するか（保持する場合は色変換せずにデコードする必要がある）
+ */
+export function shouldKeepIcc(metadata: ImageMetadata, mode: MetadataMode, format: OutputFormat): boolean {
+  return mode !== 'strip' && Boolean(metadata.icc) && canEmbedMetadata(format);
+}
+
+/**
+ * 書き戻すメタデータの概算サイズ（目標サイズの予算から差し引く）
+ */
+export function estimateMetadataSize(metadata: ImageMetadata, mode: MetadataMode): number {
+  if (mode === 'strip') return 0;
+  return (metadata.exif?.length ?? 0) + (metadata.xmp?.length ?? 0) + (metadata.icc?.length ?? 0) + 256;
+}
+
+/**
+ * 出力画像にメタデータを書き戻し、保持・削除した項目を報告する
+ * @param keepIcc デコード時に色変換を行わず、元の ICC プロファイルと画素値が対応しているか
+ */
+export async function embedMetadata(
+  blob: Blob,
+  format: OutputFormat,
+  size: { width: number; height: number },
+  metadata: ImageMetadata,
+  mode: MetadataMode,
+  keepIcc: boolean
+): Promise<{ blob: Blob; report: MetadataReport }> {
+  const report: MetadataReport = { kept: [], removed: [] };
+  const present = [
+    ...(metadata.exif ? [LABEL_EXIF] : []),
+    ...(metadata.hasGps ? [LABEL_GPS] : []),
+    ...(metadata.xmp ? [LABEL_XMP] : []),
+    ...(metadata.icc ? [LABEL_ICC] : []),
+  ];
+  if (present.length === 0) return { blob, report };
+  if (mode === 'strip' || !canEmbedMetadata(format)) {
+    report.removed = mode === 'strip' ? present : present.map(label => `${label}（${format.toUpperCase()}は非対応）`);
+    return { blob, report };
+  }
+
+  const stripGps = mode === 'stripGps';
+  // 画素には向きを反映済みのため Orientation は 1 に戻す
+  let exif = metadata.exif ? withOrientation(metadata.exif, 1) : undefined;
+  if (exif && stripGps) exif = stripGpsFromExif(exif);
+  let xmp = metadata.xmp && stripGps ? stripGpsFromXmp(metadata.xmp) : metadata.xmp;
+  const icc = keepIcc ? metadata.icc : undefined;
+
+  // JPEG の EXIF / XMP は APP1 セグメント 1 個（64 KB）に収める必要があるため、超える場合は書き込まずに報告する（ICC は分割して書き込める）
+  if (format === 'jpeg') {
+    const tooLarge = (header: string, payloadLength: number) => header.length + payloadLength + 2 > JPEG_SEGMENT_MAX;
+    if (exif && tooLarge(EXIF_HEADER, exif.length)) {
+      report.removed.push(`${LABEL_EXIF}（JPEG のセグメント上限 64 KB を超えるため）`);
+      exif = undefined;
+    }
+    if (xmp && tooLarge(XMP_HEADER, strToU8(xmp).length)) {
+      report.removed.push(`${LABEL_XMP}（JPEG のセグメント上限 64 KB を超えるため）`);
+      xmp = undefined;
+    }
+  }
+
+  if (exif) report.kept.push(LABEL_EXIF);
+  if (xmp) report.kept.push(LABEL_XMP);
+  if (icc) report.kept.push(LABEL_ICC);
+  if (metadata.hasGps) {
+    // 書き込めなかった EXIF / XMP にしか位置情報がない場合は削除扱い
+    const gpsKept = !stripGps && ((exif && hasGpsIfd(exif)) || (xmp && XMP_GPS_PATTERN.test(xmp)));
+    (gpsKept ? report.kept : report.removed).push(LABEL_GPS);
+  }
+  if (metadata.icc && !icc) report.removed.push(LABEL_ICC);
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const out = format === 'jpeg'
+    ? embedJpeg(bytes, exif, xmp, icc)
+    : format === 'png'
+    ? embedPng(bytes, exif, xmp, icc)
+    : embedWebp(bytes, size, exif, xmp, icc);
+  return { blob: new Blob([out], { type: blob.type }), report };
+}
+
+let orientationCheck: Promise<boolean> | null = null;
+
+/**
+ * createImageBitmap が EXIF の向きを自動で反映するかを検出
+ * Orientation=6（90°回転）を付けた 2x1 の JPEG をデコードし、1x2 になるかで判定する
+ */
+export function bitmapAppliesOrientation(): Promise<boolean> {
+  if (!orientationCheck) {
+    orientationCheck = (async () => {
+      try {
+        const blob = await canvasToBlob(createCanvas(2, 1).canvas, 'image/jpeg');
+        if (!blob) return true;
+        const exif = new Uint8Array([
+          0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,
+          0x00, 0x01,
+          0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06, 0x00, 0x00,
+          0x00, 0x00, 0x00, 0x00,
+        ]);
+        const tagged = embedJpeg(new Uint8Array(await blob.arrayBuffer()), exif);
+        const bitmap = await createImageBitmap(new Blob([tagged], { type: 'image/jpeg' }));
+        const applied = bitmap.width === 1;
+        bitmap.close();
+        return applied;
+      } catch {
+        return true;
+      }
+    })();
+  }
+  return orientationCheck;
+}
@@ -0,0 +1,113 @@
+/**
+ * 画質指標モジュール
+ * エンコード結果をデコードし直し、エンコード前のキャンバスと比較して PSNR / SSIM を算出する
+ */
+
+import { createCanvas } from './canvas.js';
+
+export type QualityMetrics = {
+  // ピーク信号対雑音比（dB）。劣化がない場合は Infinity
+  psnr: number;
+  // 構造的類似度（0〜1、1 で同一）
+  ssim: number;
+};
+
+// SSIM の窓サイズと移動量
+const SSIM_WINDOW = 8;
+const SSIM_STRIDE = 4;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+// 透過画素は黒の上に合成して比較する（JPEG 出力時のキャンバスの挙動と同じ）
+function compositeRGB(data: Uint8ClampedArray, i: number, c: number): number {
+  return (data[i + c] * data[i + 3]) / 255;
+}
+
+function toLuma(image: ImageData): Float32Array {
+  const { data } = image;
+  const luma = new Float32Array(image.width * image.height);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    luma[p] =
+      0.299 * compositeRGB(data, i, 0) +
+      0.587 * compositeRGB(data, i, 1) +
+      0.114 * compositeRGB(data, i, 2);
+  }
+  return luma;
+}
+
+/**
+ * RGB の平均二乗誤差から PSNR を算出
+ */
+export function computePsnr(reference: ImageData, test: ImageData): number {
+  const a = reference.data;
+  const b = test.data;
+  let sum = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const d = compositeRGB(a, i, c) - compositeRGB(b, i, c);
+      sum += d * d;
+    }
+  }
+  const mse = sum / ((a.length / 4) * 3);
+  return mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
+}
+
+/**
+ * 輝度の SSIM を 8x8 窓（4px 間隔）の平均で算出
+ */
+export function computeSsim(reference: ImageData, test: ImageData): number {
+  const { width, height } = reference;
+  const x = toLuma(reference);
+  const y = toLuma(test);
+  const winW = Math.min(SSIM_WINDOW, width);
+  const winH = Math.min(SSIM_WINDOW, height);
+  const n = winW * winH;
+  let total = 0;
+  let count = 0;
+
+  for (let top = 0; top + winH <= height; top += SSIM_STRIDE) {
+    for (let left = 0; left + winW <= width; left += SSIM_STRIDE) {
+      let sumX = 0, sumY = 0, sumXX = 0, sumYY = 0, sumXY = 0;
+      for (let wy = 0; wy < winH; wy++) {
+        const row = (top + wy) * width + left;
+        for (let wx = 0; wx < winW; wx++) {
+          const vx = x[row + wx];
+          const vy = y[row + wx];
+          sumX += vx;
+          sumY += vy;
+          sumXX += vx * vx;
+          sumYY += vy * vy;
+          sumXY += vx * vy;
+        }
+      }
+      const meanX = sumX / n;
+      const meanY = sumY / n;
+      const varX = sumXX / n - meanX * meanX;
+      const varY = sumYY / n - meanY * meanY;
+      const cov = sumXY / n - meanX * meanY;
+      total +=
+        ((2 * meanX * meanY + SSIM_C1) * (2 * cov + SSIM_C2)) /
+        ((meanX * meanX + meanY * meanY + SSIM_C1) * (varX + varY + SSIM_C2));
+      count++;
+    }
+  }
+  return count > 0 ? total / count : 1;
+}
+
+/**
+ * エンコード結果をデコードし直し、エンコード前の画素と比較する
+ */
+export async function measureQuality(reference: ImageData, encoded: Blob): Promise<QualityMetrics> {
+  const bitmap = await createImageBitmap(encoded);
+  try {
+    const { ctx } = createCanvas(reference.width, reference.height);
+    ctx.drawImage(bitmap, 0, 0, reference.width, reference.height);
+    const decoded = ctx.getImageData(0, 0, reference.width, reference.height);
+    return {
+      psnr: computePsnr(reference, decoded),
+      ssim: computeSsim(reference, decoded),
+    };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,260 @@
+/**
+ * 画像処理パイプライン
+ * 描画（向き補正）→ 編集（回転・反転・切り抜き）→ シャープ化 → リサイズ → 透かし → エンコード → メタデータ書き戻しを行う。メインスレッドと Web Worker で共通
+ */
+
+import {
+  DEFAULT_AUTO_FORMAT_OPTIONS,
+  selectSmallestFormat,
+  type AutoFormatOptions,
+  type FormatCandidate,
+} from './autoFormat.js';
+import { browserCapabilities, type EncoderBackendId, type FormatChoice, type OutputFormat } from './browserCapabilities.js';
+import { createCanvas, getContext2D, type AnyCanvas } from './canvas.js';
+import {
+  encodeCanvas,
+  encodeCanvasToTargetSize,
+  type EncoderOptions,
+  type TargetSizeOptions,
+} from './encoder.js';
+import {
+  bitmapAppliesOrientation,
+  embedMetadata,
+  estimateMetadataSize,
+  parseMetadata,
+  shouldKeepIcc,
+  type ImageMetadata,
+  type MetadataMode,
+  type MetadataReport,
+} from './metadata.js';
+import { applyEdit, type ImageEdit } from './edit.js';
+import { measureQuality, type QualityMetrics } from './metrics.js';
+import { resizeCanvas, type ResizeOptions } from './resize.js';
+import { sharpenCanvas, postResizeSharpenCanvas, type SharpenOptions } from './sharpen.js';
+import { DEFAULT_MATTE, flattenAlpha, hasTransparency } from './transparency.js';
+import { drawWatermark, type WatermarkOptions } from './watermark.js';
+
+export type ConversionOptions = {
+  format: FormatChoice;
+  // format が auto の場合の採用条件
+  autoFormat?: AutoFormatOptions;
+  quality: number;
+  resize: ResizeOptions;
+  sharpen: SharpenOptions;
+  encoder: EncoderOptions;
+  metadata: MetadataMode;
+  // 指定時は quality の代わりに目標サイズから品質を探索
+  targetSize?: TargetSizeOptions;
+  // 画像ごとの回転・反転・切り抜き（向き補正の後、シャープ化の前に適用）
+  edit?: ImageEdit;
+  // リサイズ後・エンコード前に描き込む透かし
+  watermark?: WatermarkOptions;
+};
+
+export type PipelineResult = {
+  blob: Blob;
+  actualFormat: OutputFormat;
+  backend: EncoderBackendId;
+  usedFallback?: { requestedFormat: OutputFormat; reason: string };
+  width: number;
+  height: number;
+  // 向き補正後の元画像のサイズ
+  sourceWidth: number;
+  sourceHeight: number;
+  // 実際に使用した品質（PNG では undefined）
+  quality?: number;
+  // 目標サイズに収めるため縮小したか
+  downscaledToFit: boolean;
+  // 出力形式がアルファを保存できないため、透明部分を背景色で塗りつぶしたか
+  alphaFlattened: boolean;
+  // 減色してパレット PNG で出力した場合の色数
+  paletteColors?: number;
+  // 保持・削除したメタデータ
+  metadata?: MetadataReport;
+  // エンコード前の画素と比較した画質指標（算出できなかった場合は undefined）
+  metrics?: QualityMetrics;
+  // 形式を自動選択した場合に試した候補
+  formatCandidates?: FormatCandidate[];
+};
+
+/**
+ * 画質指標の算出処理（null は算出不可）
+ * メインスレッドで処理する場合に Worker へ任せられるよう差し替え可能にしている
+ */
+export type QualityMeasurer = (reference: ImageData, encoded: Blob) => Promise<QualityMetrics | null>;
+
+export type DecodedImage = HTMLImageElement | ImageBitmap;
+
+// エンコード結果と、実際にエンコードしたキャンバス（目標サイズに合わせて縮小した場合は縮小後）
+type EncodedCanvas = Awaited<ReturnType<typeof encodeCanvasToTargetSize>>;
+
+/**
+ * 入力画像のメタデータと、ICC プロファイルを書き戻せる状態でデコードしたか
+ */
+export type SourceMetadata = {
+  metadata: ImageMetadata;
+  keepIcc: boolean;
+};
+
+/**
+ * 画像を描画したキャンバスを生成
+ * orientation には EXIF の Orientation（1〜8）を指定し、デコード時に反映されていない向きを補正する
+ */
+export function createCanvasFromImage(img: DecodedImage, orientation = 1): AnyCanvas {
+  const width = 'naturalWidth' in img ? img.naturalWidth : img.width;
+  const height = 'naturalHeight' in img ? img.naturalHeight : img.height;
+  const swap = orientation >= 5;
+  const { canvas, ctx } = createCanvas(swap ? height : width, swap ? width : height);
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+  }
+  ctx.drawImage(img, 0, 0);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  return canvas;
+}
+
+/**
+ * createImageBitmap でデコードし、メタデータを読み取る
+ * ICC プロファイルを書き戻す場合は色変換せずにデコードし、画素値と元のプロファイルを対応させる
+ */
+export async function decodeBitmap(
+  file: Blob,
+  options: ConversionOptions,
+  signal?: AbortSignal
+): Promise<{ bitmap: ImageBitmap; source: SourceMetadata }> {
+  const metadata = parseMetadata(await file.arrayBuffer());
+  signal?.throwIfAborted();
+  // 自動選択では出力形式が決まる前にデコードするため、ICC プロファイルを書き戻さず色変換しておく
+  const keepIcc = options.format !== 'auto' && shouldKeepIcc(metadata, options.metadata, options.format);
+  const bitmap = await createImageBitmap(file, keepIcc ? { colorSpaceConversion: 'none' } : undefined);
+  return { bitmap, source: { metadata, keepIcc } };
+}
+
+// デコード時に EXIF の向きが反映済みか（<img> は常に反映される）
+async function isOrientationApplied(img: DecodedImage): Promise<boolean> {
+  if (typeof ImageBitmap !== 'undefined' && img instanceof ImageBitmap) {
+    return bitmapAppliesOrientation();
+  }
+  return true;
+}
+
+/**
+ * デコード済み画像に変換設定を適用してエンコード
+ * signal が中断されると各段階の区切りで AbortError を投げる（実行中の 1 回のエンコードは止められない）
+ */
+export async function runPipeline(
+  img: DecodedImage,
+  options: ConversionOptions,
+  source?: SourceMetadata,
+  measure: QualityMeasurer = measureQuality,
+  signal?: AbortSignal
+): Promise<PipelineResult> {
+  const orientation = source && !(await isOrientationApplied(img)) ? source.metadata.orientation : 1;
+  signal?.throwIfAborted();
+  const oriented = createCanvasFromImage(img, orientation);
+  const drawn = sharpenCanvas(applyEdit(oriented, options.edit), options.sharpen);
+  signal?.throwIfAborted();
+  let canvas = resizeCanvas(drawn, options.resize);
+  // 縮小した場合のみ、甘くなったエッジを補正
+  if (options.sharpen.postResize && canvas.width < drawn.width) {
+    canvas = postResizeSharpenCanvas(canvas);
+  }
+  // 透かしは出力サイズに対する大きさ・余白で描くため、リサイズの後に入れる
+  if (options.watermark) await drawWatermark(canvas, options.watermark);
+  signal?.throwIfAborted();
+
+  // 目標サイズはメタデータを書き戻した後のサイズで判定されるよう、その分を予算から差し引く
+  const targetSize = options.targetSize && source
+    ? {
+      ...options.targetSize,
+      maxBytes: Math.max(1, options.targetSize.maxBytes - estimateMetadataSize(source.metadata, options.metadata)),
+    }
+    : options.targetSize;
+
+  const encodeAs = async (format: OutputFormat): Promise<EncodedCanvas> => targetSize
+    ? encodeCanvasToTargetSize(canvas, format, targetSize, options.encoder, signal)
+    : {
+      result: await encodeCanvas(canvas, format, options.quality, options.encoder),
+      quality: options.quality,
+      canvas,
+    };
+
+  // 画質指標はメタデータを書き戻す前の出力で比較する（失敗しても変換結果は返す）
+  // 塗りつぶした場合は、背景色の違いを誤差に含めないよう塗りつぶした画素を基準にする
+  const measureEncoded = async (encoded: EncodedCanvas, base: AnyCanvas = encoded.canvas): Promise<QualityMetrics | undefined> => {
+    try {
+      const referenceCanvas = encoded.result.alphaFlattened
+        ? flattenAlpha(base, options.encoder.matte ?? DEFAULT_MATTE)
+        : base;
+      const reference = getContext2D(referenceCanvas).getImageData(0, 0, referenceCanvas.width, referenceCanvas.height);
+      return (await measure(reference, encoded.result.blob)) ?? undefined;
+    } catch (err) {
+      console.warn('画質指標の算出に失敗しました:', err);
+      return undefined;
+    }
+  };
+
+  let encoded: EncodedCanvas;
+  let metrics: QualityMetrics | undefined;
+  let formatCandidates: FormatCandidate[] | undefined;
+  if (options.format === 'auto') {
+    // 採用条件の判定に画質指標を使うため、候補ごとに算出する
+    // 目標サイズに合わせて縮小した候補も縮小の劣化を含めて判定できるよう、すべて縮小前のキャンバスと比較する
+    ({ encoded, metrics, candidates: formatCandidates } = await selectSmallestFormat(
+      await browserCapabilities.getSupportedFormats(),
+      hasTransparency(canvas),
+      options.autoFormat ?? DEFAULT_AUTO_FORMAT_OPTIONS,
+      encodeAs,
+      encoded => measureEncoded(encoded, canvas),
+      signal
+    ));
+  } else {
+    encoded = await encodeAs(options.format);
+    signal?.throwIfAborted();
+    metrics = await measureEncoded(encoded);
+  }
+  const { actualFormat, backend, usedFallback, alphaFlattened, paletteColors } = encoded.result;
+  const width = encoded.canvas.width;
+  const height = encoded.canvas.height;
+
+  signal?.throwIfAborted();
+
+  let blob = encoded.result.blob;
+  let metadata: MetadataReport | undefined;
+  if (source) {
+    const embedded = await embedMetadata(
+      blob,
+      actualFormat,
+      { width, height },
+      source.metadata,
+      options.metadata,
+      source.keepIcc
+    );
+    blob = embedded.blob;
+    metadata = embedded.report;
+  }
+
+  return {
+    blob,
+    actualFormat,
+    backend,
+    usedFallback,
+    width,
+    height,
+    sourceWidth: oriented.width,
+    sourceHeight: oriented.height,
+    quality: actualFormat === 'png' ? undefined : encoded.quality,
+    downscaledToFit: encoded.canvas !== canvas,
+    alphaFlattened,
+    paletteColors,
+    metadata,
+    metrics,
+    formatCandidates,
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * パレット PNG 書き出しモジュール
+ * 減色した画像をインデックスカラー（カラータイプ 3）の PNG にする
+ */
+
+import { zlibSync } from 'fflate';
+import { PNG_SIGNATURE, pngChunk } from './metadata.js';
+import type { QuantizedImage } from './quantize.js';
+
+// 色数に応じた最小のビット深度（1 / 2 / 4 / 8）
+function bitDepthFor(colors: number): number {
+  return colors <= 2 ? 1 : colors <= 4 ? 2 : colors <= 16 ? 4 : 8;
+}
+
+/**
+ * 減色した画像をパレット PNG にエンコード
+ * 行ごとのフィルタはパレット画像に推奨される None（0）を使う
+ */
+export function encodeIndexedPng(image: QuantizedImage): Blob {
+  const { width, height, palette, indices } = image;
+  const colors = palette.length / 4;
+  const bitDepth = bitDepthFor(colors);
+  const perByte = 8 / bitDepth;
+  const rowBytes = Math.ceil(width / perByte);
+
+  // 各行の先頭にフィルタ種別を置き、1 バイトに入るだけの番号を上位ビットから詰める
+  const raw = new Uint8Array((rowBytes + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (rowBytes + 1) + 1;
+    const src = y * width;
+    if (bitDepth === 8) {
+      raw.set(indices.subarray(src, src + width), row);
+      continue;
+    }
+    for (let x = 0; x < width; x++) {
+      const shift = 8 - bitDepth * ((x % perByte) + 1);
+      raw[row + Math.floor(x / perByte)] |= indices[src + x] << shift;
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = bitDepth;
+  // カラータイプ 3（インデックスカラー）、圧縮・フィルタ方式 0、インターレースなし
+  header[9] = 3;
+
+  const plte = new Uint8Array(colors * 3);
+  let alphaCount = 0;
+  for (let i = 0; i < colors; i++) {
+    plte.set(palette.subarray(i * 4, i * 4 + 3), i * 3);
+    // 不透明でない色は先頭に並んでいるため、最後の不透明でない色までを tRNS に書く
+    if (palette[i * 4 + 3] < 255) alphaCount = i + 1;
+  }
+  const trns = new Uint8Array(alphaCount);
+  for (let i = 0; i < alphaCount; i++) trns[i] = palette[i * 4 + 3];
+
+  const parts = [
+    new Uint8Array(PNG_SIGNATURE),
+    pngChunk('IHDR', header),
+    pngChunk('PLTE', plte),
+    ...(alphaCount > 0 ? [pngChunk('tRNS', trns)] : []),
+    pngChunk('IDAT', zlibSync(raw, { level: 9 })),
+    pngChunk('IEND', new Uint8Array(0)),
+  ];
+  return new Blob(parts, { type: 'image/png' });
+}
@@ -0,0 +1,157 @@
+/**
+ * プリセット管理モジュール
+ * 操作パネルの設定値に名前を付けて localStorage に保存し、JSON ファイルで書き出し・読み込みする
+ */
+
+// 書き出すファイルの形式バージョン（互換性のない変更をしたら上げる）
+export const PRESET_FILE_VERSION = 1;
+
+const STORAGE_KEY = 'image-sharpener:presets';
+const LAST_USED_KEY = 'image-sharpener:lastPreset';
+
+/**
+ * 設定値（操作パネルの要素 id → 値）
+ * 要素単位で保存するため、設定項目を追加してもプリセットの形式を変えずに済む
+ */
+export type PresetValues = Record<string, string | boolean>;
+
+export interface Preset {
+  name: string;
+  values: PresetValues;
+  updatedAt: string;
+}
+
+export interface PresetFile {
+  version: number;
+  presets: Preset[];
+}
+
+function isPreset(value: unknown): value is Preset {
+  if (!value || typeof value !== 'object') return false;
+  const preset = value as Partial<Preset>;
+  if (typeof preset.name !== 'string' || preset.name.trim() === '') return false;
+  if (!preset.values || typeof preset.values !== 'object') return false;
+  return Object.values(preset.values).every(v => typeof v === 'string' || typeof v === 'boolean');
+}
+
+function isQuotaExceeded(error: unknown): boolean {
+  return error instanceof DOMException
+    && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+}
+
+/**
+ * プリセットの保存先
+ * localStorage が使えない環境（プライベートモード等）ではメモリ上のみで保持する
+ */
+class PresetStore {
+  private presets: Preset[] | null = null;
+
+  list(): Preset[] {
+    if (!this.presets) this.presets = this.load();
+    return [...this.presets].sort((a, b) => a.name.localeCompare(b.name, 'ja'));
+  }
+
+  get(name: string): Preset | undefined {
+    return this.list().find(p => p.name === name);
+  }
+
+  /**
+   * 保存容量が不足している場合は例外を投げ、一覧は変更しない
+   */
+  save(name: string, values: PresetValues): Preset {
+    const preset: Preset = { name: name.trim(), values, updatedAt: new Date().toISOString() };
+    this.persist([...this.list().filter(p => p.name !== preset.name), preset]);
+    return preset;
+  }
+
+  remove(name: string) {
+    this.persist(this.list().filter(p => p.name !== name));
+    if (this.getLastUsed() === name) this.setLastUsed(null);
+  }
+
+  getLastUsed(): string | null {
+    try {
+      return localStorage.getItem(LAST_USED_KEY);
+    } catch {
+      return null;
+    }
+  }
+
+  setLastUsed(name: string | null) {
+    try {
+      if (name) localStorage.setItem(LAST_USED_KEY, name);
+      else localStorage.removeItem(LAST_USED_KEY);
+    } catch {
+      // 保存できなくても動作には影響しない
+    }
+  }
+
+  /**
+   * すべてのプリセットを JSON 文字列で書き出す
+   */
+  exportJson(): string {
+    const file: PresetFile = { version: PRESET_FILE_VERSION, presets: this.list() };
+    return JSON.stringify(file, null, 2);
+  }
+
+  /**
+   * JSON ファイルの内容を読み込み、同名のプリセットは上書きする
+   * @returns 読み込んだプリセット数
+   */
+  importJson(text: string): number {
+    let file: Partial<PresetFile>;
+    try {
+      file = JSON.parse(text);
+    } catch {
+      throw new Error('プリセットファイルが JSON として読み込めません');
+    }
+    if (!file || typeof file !== 'object' || !Array.isArray(file.presets)) {
+      throw new Error('プリセットファイルの形式が正しくありません');
+    }
+    if (typeof file.version !== 'number' || file.version > PRESET_FILE_VERSION) {
+      throw new Error(`対応していないプリセットファイルのバージョンです（${String(file.version)}）`);
+    }
+    const imported = file.presets.filter(isPreset);
+    if (imported.length === 0) throw new Error('読み込めるプリセットがありません');
+
+    const names = new Set(imported.map(p => p.name.trim()));
+    this.persist([
+      ...this.list().filter(p => !names.has(p.name)),
+      ...imported.map(p => ({ ...p, name: p.name.trim() })),
+    ]);
+    return imported.length;
+  }
+
+  private load(): Preset[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (!raw) return [];
+      const parsed = JSON.parse(raw) as Partial<PresetFile>;
+      return Array.isArray(parsed.presets) ? parsed.presets.filter(isPreset) : [];
+    } catch (error) {
+      console.warn('プリセットの読み込みに失敗しました:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 一覧を置き換えて保存する
+   * 容量不足の場合は一覧を変更せずに例外を投げる（再読み込みで消えるプリセットを保存済みに見せないため）
+   * localStorage 自体が使えない環境ではメモリ上のみ更新する
+   */
+  private persist(presets: Preset[]) {
+    try {
+      const file: PresetFile = { version: PRESET_FILE_VERSION, presets };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(file));
+    } catch (error) {
+      if (isQuotaExceeded(error)) {
+        throw new Error('保存容量が不足しているためプリセットを保存できませんでした。不要なプリセットを削除してください（透かしのロゴを含むプリセットは容量を多く使います）');
+      }
+      console.warn('プリセットを保存できませんでした:', error);
+    }
+    this.presets = presets;
+  }
+}
+
+// シングルトンインスタンス
+export const presetStore = new PresetStore();
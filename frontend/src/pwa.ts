@@ -0,0 +1,69 @@
+/**
+ * PWA 対応モジュール
+ * Service Worker を登録し、OS の共有（Web Share Target）やファイルハンドラ経由で渡された画像を受け取る
+ */
+
+// sw.ts と揃える
+const SERVICE_WORKER_URL = '/sw.js';
+const SHARED_FILES_CACHE = 'image-sharpener-shared';
+const SHARE_TARGET_PARAM = 'share-target';
+
+// ファイルハンドラ（launchQueue）は lib.dom に型がないため、使う分だけ定義する
+type LaunchParams = { files?: readonly FileSystemFileHandle[] };
+type LaunchQueue = { setConsumer(consumer: (params: LaunchParams) => void): void };
+
+/**
+ * Service Worker を登録
+ * 開発サーバーでは sw.js を生成しないため登録しない
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.register(SERVICE_WORKER_URL).catch((error) => {
+    console.warn('Service Worker を登録できませんでした:', error);
+  });
+}
+
+/**
+ * 共有で起動された場合、Service Worker が一時保存したファイルを取り出す
+ * 取り出したファイルは削除し、再読み込みで同じ画像を二重に追加しないよう URL からも印を外す
+ */
+export async function takeSharedFiles(): Promise<File[]> {
+  const url = new URL(location.href);
+  if (!url.searchParams.has(SHARE_TARGET_PARAM)) return [];
+  url.searchParams.delete(SHARE_TARGET_PARAM);
+  history.replaceState(null, '', url);
+  if (typeof caches === 'undefined') return [];
+
+  try {
+    const cache = await caches.open(SHARED_FILES_CACHE);
+    const files: File[] = [];
+    for (const request of await cache.keys()) {
+      const response = await cache.match(request);
+      if (!response) continue;
+      const blob = await response.blob();
+      const name = decodeURIComponent(response.headers.get('X-Filename') ?? '') || 'shared';
+      files.push(new File([blob], name, { type: blob.type }));
+    }
+    await caches.delete(SHARED_FILES_CACHE);
+    return files;
+  } catch (error) {
+    console.warn('共有されたファイルを読み込めませんでした:', error);
+    return [];
+  }
+}
+
+/**
+ * 「このアプリで開く」（file_handlers）で渡されたファイルを受け取る
+ * 起動後に別のファイルを開いた場合も、同じウィンドウで onFiles が呼ばれる
+ */
+export function onLaunchFiles(onFiles: (files: File[]) => void) {
+  const launchQueue = (window as Window & { launchQueue?: LaunchQueue }).launchQueue;
+  launchQueue?.setConsumer(async (params) => {
+    if (!params.files || params.files.length === 0) return;
+    try {
+      onFiles(await Promise.all(params.files.map(handle => handle.getFile())));
+    } catch (error) {
+      console.warn('開いたファイルを読み込めませんでした:', error);
+    }
+  });
+}
@@ -0,0 +1,285 @@
+/**
+ * 減色モジュール
+ * メディアンカットで最大 256 色のパレットを作り、各画素をパレットの番号に置き換える（必要に応じて Floyd–Steinberg の誤差拡散）
+ * メインスレッドと Web Worker で共通
+ */
+
+export type PaletteOptions = {
+  // パレットの色数（2〜256）
+  colors: number;
+  // 誤差拡散でグラデーションの段差（バンディング）を目立たなくする
+  dither: boolean;
+};
+
+export const MIN_PALETTE_COLORS = 2;
+export const MAX_PALETTE_COLORS = 256;
+
+export const DEFAULT_PALETTE_OPTIONS: PaletteOptions = {
+  colors: MAX_PALETTE_COLORS,
+  dither: true,
+};
+
+export type QuantizedImage = {
+  width: number;
+  height: number;
+  // パレットの色（RGBA を色数分並べたもの。不透明でない色が先頭）
+  palette: Uint8Array;
+  // 画素ごとのパレットの番号
+  indices: Uint8Array;
+};
+
+// ヒストグラムは RGBA 各 5 ビットに丸めて数える（2^20 区画）
+const BIN_BITS = 5;
+const BIN_SHIFT = 8 - BIN_BITS;
+const BIN_COUNT = 1 << (BIN_BITS * 4);
+
+type RgbaSource = { data: Uint8ClampedArray; width: number; height: number };
+
+type Box = {
+  start: number;
+  end: number;
+  // 最も幅の広いチャンネルと、分割の優先度（幅 × 画素数）
+  channel: number;
+  score: number;
+};
+
+function binKey(r: number, g: number, b: number, a: number): number {
+  return ((r >> BIN_SHIFT) << (BIN_BITS * 3)) | ((g >> BIN_SHIFT) << (BIN_BITS * 2)) | ((b >> BIN_SHIFT) << BIN_BITS) | (a >> BIN_SHIFT);
+}
+
+/**
+ * 色数が上限以下であれば、そのままの色でパレットを作る（減色による劣化なし）
+ * 完全に透明な画素は色を区別しない
+ */
+function exactPalette(source: RgbaSource, colors: number): QuantizedImage | null {
+  const { data } = source;
+  const lookup = new Map<number, number>();
+  const keys: number[] = [];
+  const indices = new Uint8Array(source.width * source.height);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    const a = data[i + 3];
+    const key = a === 0 ? 0 : ((data[i] << 24) | (data[i + 1] << 16) | (data[i + 2] << 8) | a) >>> 0;
+    let index = lookup.get(key);
+    if (index === undefined) {
+      if (keys.length >= colors) return null;
+      index = keys.length;
+      lookup.set(key, index);
+      keys.push(key);
+    }
+    indices[p] = index;
+  }
+
+  // PNG の tRNS チャンクを短くするため、不透明でない色を先頭に並べ替える
+  const order = keys.map((_, i) => i).sort((x, y) => (keys[x] & 0xff) - (keys[y] & 0xff));
+  const remap = new Uint8Array(keys.length);
+  const palette = new Uint8Array(keys.length * 4);
+  order.forEach((from, to) => {
+    remap[from] = to;
+    const key = keys[from];
+    palette.set([key >>> 24, (key >>> 16) & 0xff, (key >>> 8) & 0xff, key & 0xff], to * 4);
+  });
+  for (let p = 0; p < indices.length; p++) indices[p] = remap[indices[p]];
+  return { width: source.width, height: source.height, palette, indices };
+}
+
+/**
+ * ヒストグラムの区画をメディアンカットで分割し、区画ごとの平均色をパレットにする
+ */
+function medianCutPalette(source: RgbaSource, colors: number): Uint8Array {
+  const { data } = source;
+  const counts = new Uint32Array(BIN_COUNT);
+  for (let i = 0; i < data.length; i += 4) {
+    const a = data[i + 3];
+    counts[a === 0 ? 0 : binKey(data[i], data[i + 1], data[i + 2], a)]++;
+  }
+
+  // 使われている区画だけを取り出し、区画内の実際の色の合計を集める
+  const entryOf = new Int32Array(BIN_COUNT);
+  let entryCount = 0;
+  for (let key = 0; key < BIN_COUNT; key++) {
+    if (counts[key] > 0) entryOf[key] = entryCount++;
+  }
+  const weights = new Float64Array(entryCount);
+  const sums = new Float64Array(entryCount * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    const a = data[i + 3];
+    if (a === 0) {
+      weights[entryOf[0]]++;
+      continue;
+    }
+    const e = entryOf[binKey(data[i], data[i + 1], data[i + 2], a)];
+    weights[e]++;
+    sums[e * 4] += data[i];
+    sums[e * 4 + 1] += data[i + 1];
+    sums[e * 4 + 2] += data[i + 2];
+    sums[e * 4 + 3] += a;
+  }
+  const means = new Float64Array(entryCount * 4);
+  for (let e = 0; e < entryCount; e++) {
+    for (let c = 0; c < 4; c++) means[e * 4 + c] = sums[e * 4 + c] / weights[e];
+  }
+
+  const order = new Int32Array(entryCount);
+  for (let e = 0; e < entryCount; e++) order[e] = e;
+
+  const measureBox = (start: number, end: number): Box => {
+    const min = [255, 255, 255, 255];
+    const max = [0, 0, 0, 0];
+    let weight = 0;
+    for (let i = start; i < end; i++) {
+      const e = order[i];
+      weight += weights[e];
+      for (let c = 0; c < 4; c++) {
+        const v = means[e * 4 + c];
+        if (v < min[c]) min[c] = v;
+        if (v > max[c]) max[c] = v;
+      }
+    }
+    let channel = 0;
+    for (let c = 1; c < 4; c++) {
+      if (max[c] - min[c] > max[channel] - min[channel]) channel = c;
+    }
+    const range = max[channel] - min[channel];
+    return { start, end, channel, score: end - start > 1 ? range * weight : 0 };
+  };
+
+  const boxes = [measureBox(0, entryCount)];
+  while (boxes.length < colors) {
+    let target = 0;
+    for (let i = 1; i < boxes.length; i++) {
+      if (boxes[i].score > boxes[target].score) target = i;
+    }
+    const box = boxes[target];
+    if (box.score <= 0) break;
+
+    // 最も幅の広いチャンネルで並べ、画素数が半分になる位置で分ける
+    const { start, end, channel } = box;
+    order.subarray(start, end).sort((x, y) => means[x * 4 + channel] - means[y * 4 + channel]);
+    let total = 0;
+    for (let i = start; i < end; i++) total += weights[order[i]];
+    let split = start + 1;
+    for (let acc = 0, i = start; i < end - 1; i++) {
+      acc += weights[order[i]];
+      if (acc >= total / 2) {
+        split = i + 1;
+        break;
+      }
+    }
+    boxes.splice(target, 1, measureBox(start, split), measureBox(split, end));
+  }
+
+  const palette = boxes.map(({ start, end }) => {
+    const color = [0, 0, 0, 0];
+    let weight = 0;
+    for (let i = start; i < end; i++) {
+      const e = order[i];
+      weight += weights[e];
+      for (let c = 0; c < 4; c++) color[c] += sums[e * 4 + c];
+    }
+    return color.map(v => Math.round(v / weight));
+  });
+  // PNG の tRNS チャンクを短くするため、不透明でない色を先頭に並べ替える
+  palette.sort((x, y) => x[3] - y[3]);
+  return Uint8Array.from(palette.flat());
+}
+
+/**
+ * パレットの中で最も近い色の番号（RGBA のユークリッド距離）
+ */
+function nearestColor(palette: Uint8Array, r: number, g: number, b: number, a: number): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let i = 0; i < palette.length; i += 4) {
+    const dr = palette[i] - r;
+    const dg = palette[i + 1] - g;
+    const db = palette[i + 2] - b;
+    const da = palette[i + 3] - a;
+    const distance = dr * dr + dg * dg + db * db + da * da;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = i / 4;
+    }
+  }
+  return best;
+}
+
+/**
+ * 各画素をパレットの番号に置き換える
+ * 最も近い色の探索結果はヒストグラムと同じ区画ごとに使い回す
+ */
+function mapPixels(source: RgbaSource, palette: Uint8Array, dither: boolean): Uint8Array {
+  const { data, width, height } = source;
+  const indices = new Uint8Array(width * height);
+  const cache = new Int16Array(BIN_COUNT).fill(-1);
+  const lookup = (r: number, g: number, b: number, a: number) => {
+    const key = a === 0 ? 0 : binKey(r, g, b, a);
+    let index = cache[key];
+    if (index < 0) {
+      index = a === 0 ? nearestColor(palette, 0, 0, 0, 0) : nearestColor(palette, r, g, b, a);
+      cache[key] = index;
+    }
+    return index;
+  };
+
+  if (!dither) {
+    for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+      indices[p] = lookup(data[i], data[i + 1], data[i + 2], data[i + 3]);
+    }
+    return indices;
+  }
+
+  // Floyd–Steinberg: 誤差を右 7/16・左下 3/16・下 5/16・右下 1/16 に配る（両端の 1 画素分は余白）
+  let current = new Float32Array((width + 2) * 4);
+  let next = new Float32Array((width + 2) * 4);
+  const errors = new Float32Array(4);
+  const clamp = (v: number) => (v < 0 ? 0 : v > 255 ? 255 : Math.round(v));
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const i = p * 4;
+      // 完全に透明な画素は見えないため、誤差を受け取りも配りもしない
+      if (data[i + 3] === 0) {
+        indices[p] = lookup(0, 0, 0, 0);
+        continue;
+      }
+      const o = (x + 1) * 4;
+      const r = clamp(data[i] + current[o]);
+      const g = clamp(data[i + 1] + current[o + 1]);
+      const b = clamp(data[i + 2] + current[o + 2]);
+      const a = clamp(data[i + 3] + current[o + 3]);
+      const index = lookup(r, g, b, a);
+      indices[p] = index;
+      errors[0] = r - palette[index * 4];
+      errors[1] = g - palette[index * 4 + 1];
+      errors[2] = b - palette[index * 4 + 2];
+      errors[3] = a - palette[index * 4 + 3];
+      for (let c = 0; c < 4; c++) {
+        const error = errors[c];
+        current[o + 4 + c] += (error * 7) / 16;
+        next[o - 4 + c] += (error * 3) / 16;
+        next[o + c] += (error * 5) / 16;
+        next[o + 4 + c] += error / 16;
+      }
+    }
+    [current, next] = [next, current];
+    next.fill(0);
+  }
+  return indices;
+}
+
+/**
+ * 画像を指定した色数以下に減色する
+ * 元の色数が指定以下の場合は色を変えない（誤差拡散も行わない）
+ */
+export function quantizeImage(source: RgbaSource, options: PaletteOptions): QuantizedImage {
+  const colors = Math.min(MAX_PALETTE_COLORS, Math.max(MIN_PALETTE_COLORS, Math.round(options.colors)));
+  const exact = exactPalette(source, colors);
+  if (exact) return exact;
+  const palette = medianCutPalette(source, colors);
+  return {
+    width: source.width,
+    height: source.height,
+    palette,
+    indices: mapPixels(source, palette, options.dither),
+  };
+}
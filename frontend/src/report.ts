@@ -0,0 +1,94 @@
+/**
+ * 変換レポートモジュール
+ * 変換前後のサイズを集計し、ファイルごとの結果を CSV / JSON で書き出す
+ */
+
+/**
+ * ファイル 1 件分の結果（CSV の列・JSON のキーと同じ並び）
+ */
+export type ReportRow = {
+  // 投入したフォルダを基準とした入力ファイルのパス
+  path: string;
+  // ZIP 内の出力パス（未変換・失敗時は undefined）
+  output?: string;
+  status: string;
+  sourceType: string;
+  outputType?: string;
+  sourceWidth?: number;
+  sourceHeight?: number;
+  outputWidth?: number;
+  outputHeight?: number;
+  quality?: number;
+  originalBytes: number;
+  outputBytes?: number;
+  // 削減率（%、増えた場合は負）
+  savingsPercent?: number;
+  // 変換結果が大きかったため元画像を出力にしたか
+  keptOriginal: boolean;
+  error?: string;
+};
+
+export type SizeSummary = {
+  // 出力がある（変換済みの）件数
+  count: number;
+  originalBytes: number;
+  outputBytes: number;
+  keptOriginal: number;
+};
+
+const COLUMNS: (keyof ReportRow)[] = [
+  'path',
+  'output',
+  'status',
+  'sourceType',
+  'outputType',
+  'sourceWidth',
+  'sourceHeight',
+  'outputWidth',
+  'outputHeight',
+  'quality',
+  'originalBytes',
+  'outputBytes',
+  'savingsPercent',
+  'keptOriginal',
+  'error',
+];
+
+/**
+ * 削減率（0〜1、増えた場合は負）
+ */
+export function savingsRatio(originalBytes: number, outputBytes: number): number {
+  return originalBytes > 0 ? (originalBytes - outputBytes) / originalBytes : 0;
+}
+
+/**
+ * 変換済みのファイルについて、変換前後の合計サイズを集計する
+ */
+export function summarize(rows: ReportRow[]): SizeSummary {
+  const converted = rows.filter(row => row.outputBytes !== undefined);
+  return {
+    count: converted.length,
+    originalBytes: converted.reduce((sum, row) => sum + row.originalBytes, 0),
+    outputBytes: converted.reduce((sum, row) => sum + row.outputBytes!, 0),
+    keptOriginal: converted.filter(row => row.keptOriginal).length,
+  };
+}
+
+export function buildJsonReport(rows: ReportRow[], generatedAt = new Date()): string {
+  return JSON.stringify({ generatedAt: generatedAt.toISOString(), summary: summarize(rows), files: rows }, null, 2);
+}
+
+function csvField(value: ReportRow[keyof ReportRow]): string {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV（RFC 4180）で書き出す
+ * Excel で日本語のファイル名が文字化けしないよう BOM を付ける
+ */
+export function buildCsvReport(rows: ReportRow[]): string {
+  const lines = [COLUMNS.join(','), ...rows.map(row => COLUMNS.map(key => csvField(row[key])).join(','))];
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,284 @@
+/**
+ * リサイズ処理モジュール
+ * 最大幅・高さ / サイズ指定 / 倍率指定のリサイズ計算と、段階縮小 + Lanczos3 による高品質ダウンスケールを提供
+ */
+
+import { createCanvas, getContext2D, type AnyCanvas } from './canvas.js';
+
+export type ResizeMode = 'none' | 'max' | 'exact' | 'percent';
+
+/**
+ * サイズ指定時の合わせ方
+ * - contain: 縦横比を保って枠内に収める
+ * - cover: 縦横比を保って枠を埋め、はみ出した部分を中央基準で切り取る
+ * - fill: 縦横比を無視して枠に合わせる
+ */
+export type FitMode = 'contain' | 'cover' | 'fill';
+
+export interface ResizeOptions {
+  mode: ResizeMode;
+  width?: number;
+  height?: number;
+  percent?: number;
+  fit: FitMode;
+  /** 元画像より大きくしない */
+  withoutEnlargement: boolean;
+}
+
+/**
+ * リサイズ計画（元画像の切り出し領域と出力サイズ）
+ */
+export interface ResizePlan {
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_RESIZE_OPTIONS: ResizeOptions = {
+  mode: 'none',
+  fit: 'contain',
+  withoutEnlargement: true,
+};
+
+// Lanczos フィルタのローブ数
+const LANCZOS_LOBES = 3;
+
+function isPositive(value: number | undefined): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function scaledPlan(srcWidth: number, srcHeight: number, scale: number): ResizePlan {
+  return {
+    sx: 0,
+    sy: 0,
+    sw: srcWidth,
+    sh: srcHeight,
+    width: Math.max(1, Math.round(srcWidth * scale)),
+    height: Math.max(1, Math.round(srcHeight * scale)),
+  };
+}
+
+/**
+ * 元画像サイズとオプションから出力サイズ・切り出し領域を計算
+ */
+export function computeResizePlan(srcWidth: number, srcHeight: number, options: ResizeOptions): ResizePlan {
+  const limit = (scale: number) => (options.withoutEnlargement ? Math.min(scale, 1) : scale);
+
+  switch (options.mode) {
+    case 'percent': {
+      if (!isPositive(options.percent)) break;
+      return scaledPlan(srcWidth, srcHeight, limit(options.percent / 100));
+    }
+    case 'max': {
+      const scaleW = isPositive(options.width) ? options.width / srcWidth : Infinity;
+      const scaleH = isPositive(options.height) ? options.height / srcHeight : Infinity;
+      const scale = Math.min(scaleW, scaleH);
+      if (!Number.isFinite(scale)) break;
+      return scaledPlan(srcWidth, srcHeight, limit(scale));
+    }
+    case 'exact': {
+      const hasW = isPositive(options.width);
+      const hasH = isPositive(options.height);
+      if (!hasW && !hasH) break;
+      // 片方のみ指定された場合は縦横比を保って合わせる
+      if (!hasW || !hasH) {
+        const scale = hasW ? options.width! / srcWidth : options.height! / srcHeight;
+        return scaledPlan(srcWidth, srcHeight, limit(scale));
+      }
+      const boxW = options.width!;
+      const boxH = options.height!;
+      if (options.fit === 'fill') {
+        return {
+          sx: 0,
+          sy: 0,
+          sw: srcWidth,
+          sh: srcHeight,
+          width: Math.round(options.withoutEnlargement ? Math.min(boxW, srcWidth) : boxW),
+          height: Math.round(options.withoutEnlargement ? Math.min(boxH, srcHeight) : boxH),
+        };
+      }
+      if (options.fit === 'contain') {
+        return scaledPlan(srcWidth, srcHeight, limit(Math.min(boxW / srcWidth, boxH / srcHeight)));
+      }
+      // cover: 枠の縦横比で中央を切り出す。拡大禁止時は枠ごと縮める
+      const coverScale = Math.max(boxW / srcWidth, boxH / srcHeight);
+      const scale = limit(coverScale);
+      const width = Math.max(1, Math.round(boxW * (scale / coverScale)));
+      const height = Math.max(1, Math.round(boxH * (scale / coverScale)));
+      const sw = Math.min(srcWidth, width / scale);
+      const sh = Math.min(srcHeight, height / scale);
+      return {
+        sx: (srcWidth - sw) / 2,
+        sy: (srcHeight - sh) / 2,
+        sw,
+        sh,
+        width,
+        height,
+      };
+    }
+    case 'none':
+      break;
+  }
+  return scaledPlan(srcWidth, srcHeight, 1);
+}
+
+function lanczos(x: number): number {
+  if (x === 0) return 1;
+  if (x <= -LANCZOS_LOBES || x >= LANCZOS_LOBES) return 0;
+  const px = Math.PI * x;
+  return (LANCZOS_LOBES * Math.sin(px) * Math.sin(px / LANCZOS_LOBES)) / (px * px);
+}
+
+type Contribution = { start: number; weights: Float32Array };
+
+/**
+ * 1次元方向の出力画素ごとの参照範囲と重みを計算
+ */
+function computeContributions(srcSize: number, dstSize: number): Contribution[] {
+  const scale = dstSize / srcSize;
+  // 縮小時はフィルタ幅を広げてエイリアシングを防ぐ
+  const filterScale = Math.max(1 / scale, 1);
+  const support = LANCZOS_LOBES * filterScale;
+  const contributions: Contribution[] = [];
+  for (let i = 0; i < dstSize; i++) {
+    const center = (i + 0.5) / scale;
+    const start = Math.max(0, Math.floor(center - support));
+    const end = Math.min(srcSize, Math.ceil(center + support));
+    const weights = new Float32Array(Math.max(1, end - start));
+    let sum = 0;
+    for (let j = start; j < end; j++) {
+      const w = lanczos((j + 0.5 - center) / filterScale);
+      weights[j - start] = w;
+      sum += w;
+    }
+    if (sum !== 0) {
+      for (let k = 0; k < weights.length; k++) weights[k] /= sum;
+    }
+    contributions.push({ start, weights });
+  }
+  return contributions;
+}
+
+/**
+ * Lanczos3 による ImageData のリサンプリング
+ * 透過部分の色にじみを防ぐため、乗算済みアルファで計算する
+ */
+export function lanczosResample(src: ImageData, dstWidth: number, dstHeight: number): ImageData {
+  const { width: srcWidth, height: srcHeight, data } = src;
+
+  // 乗算済みアルファへ変換
+  const premul = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const a = data[i + 3] / 255;
+    premul[i] = data[i] * a;
+    premul[i + 1] = data[i + 1] * a;
+    premul[i + 2] = data[i + 2] * a;
+    premul[i + 3] = data[i + 3];
+  }
+
+  // 水平方向
+  const horizontal = new Float32Array(dstWidth * srcHeight * 4);
+  const colContribs = computeContributions(srcWidth, dstWidth);
+  for (let y = 0; y < srcHeight; y++) {
+    const rowOffset = y * srcWidth * 4;
+    for (let x = 0; x < dstWidth; x++) {
+      const { start, weights } = colContribs[x];
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const w = weights[k];
+        const p = rowOffset + (start + k) * 4;
+        r += premul[p] * w;
+        g += premul[p + 1] * w;
+        b += premul[p + 2] * w;
+        a += premul[p + 3] * w;
+      }
+      const o = (y * dstWidth + x) * 4;
+      horizontal[o] = r;
+      horizontal[o + 1] = g;
+      horizontal[o + 2] = b;
+      horizontal[o + 3] = a;
+    }
+  }
+
+  // 垂直方向 + アルファ除算
+  const out = new Uint8ClampedArray(dstWidth * dstHeight * 4);
+  const rowContribs = computeContributions(srcHeight, dstHeight);
+  for (let y = 0; y < dstHeight; y++) {
+    const { start, weights } = rowContribs[y];
+    for (let x = 0; x < dstWidth; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const w = weights[k];
+        const p = ((start + k) * dstWidth + x) * 4;
+        r += horizontal[p] * w;
+        g += horizontal[p + 1] * w;
+        b += horizontal[p + 2] * w;
+        a += horizontal[p + 3] * w;
+      }
+      const o = (y * dstWidth + x) * 4;
+      if (a > 0) {
+        const inv = 255 / a;
+        out[o] = r * inv;
+        out[o + 1] = g * inv;
+        out[o + 2] = b * inv;
+      }
+      out[o + 3] = a;
+    }
+  }
+
+  return new ImageData(out, dstWidth, dstHeight);
+}
+
+/**
+ * リサイズ計画に従ってキャンバスをリサイズ
+ * 縮小時は 1/2 ずつ段階的に縮めてから、最後の 2 倍以内を Lanczos3 で仕上げる
+ */
+export function resizeCanvas(source: AnyCanvas, options: ResizeOptions): AnyCanvas {
+  const plan = computeResizePlan(source.width, source.height, options);
+  const isIdentity =
+    plan.sx === 0 && plan.sy === 0 &&
+    plan.sw === source.width && plan.sh === source.height &&
+    plan.width === source.width && plan.height === source.height;
+  if (isIdentity) return source;
+
+  // 拡大（またはほぼ等倍）は drawImage の高品質補間で十分
+  if (plan.width >= plan.sw && plan.height >= plan.sh) {
+    const { canvas, ctx } = createCanvas(plan.width, plan.height);
+    ctx.drawImage(source, plan.sx, plan.sy, plan.sw, plan.sh, 0, 0, plan.width, plan.height);
+    return canvas;
+  }
+
+  // 切り出し + 段階縮小
+  let current: AnyCanvas = source;
+  let region = { x: plan.sx, y: plan.sy, w: plan.sw, h: plan.sh };
+  while (region.w / 2 >= plan.width * 2 && region.h / 2 >= plan.height * 2) {
+    const w = Math.round(region.w / 2);
+    const h = Math.round(region.h / 2);
+    const { canvas, ctx } = createCanvas(w, h);
+    ctx.drawImage(current, region.x, region.y, region.w, region.h, 0, 0, w, h);
+    current = canvas;
+    region = { x: 0, y: 0, w, h };
+  }
+
+  // 切り出しが残っている場合は等倍で切り出す
+  if (region.x !== 0 || region.y !== 0 || region.w !== current.width || region.h !== current.height) {
+    const w = Math.max(1, Math.round(region.w));
+    const h = Math.max(1, Math.round(region.h));
+    const { canvas, ctx } = createCanvas(w, h);
+    ctx.drawImage(current, region.x, region.y, region.w, region.h, 0, 0, w, h);
+    current = canvas;
+  }
+
+  const srcCtx = getContext2D(current);
+  const resampled = lanczosResample(
+    srcCtx.getImageData(0, 0, current.width, current.height),
+    plan.width,
+    plan.height
+  );
+  const { canvas, ctx } = createCanvas(plan.width, plan.height);
+  ctx.putImageData(resampled, 0, 0);
+  return canvas;
+}
@@ -0,0 +1,131 @@
+/**
+ * レスポンシブ画像セット生成モジュール
+ * 1 枚の画像から複数の幅 × 形式の派生画像を作り、<picture> / srcset のマークアップとマニフェストを生成する
+ */
+
+import type { OutputFormat } from './browserCapabilities.js';
+import { getMimeType } from './formatUtils.js';
+import type { PipelineResult } from './pipeline.js';
+
+export interface ResponsiveSetOptions {
+  /** 出力する幅（px、昇順に並べ替えて使う） */
+  widths: number[];
+  /** 出力する形式（<source> はこの順に並ぶ） */
+  formats: OutputFormat[];
+  /** <img> / <source> の sizes 属性 */
+  sizes: string;
+}
+
+export const DEFAULT_RESPONSIVE_OPTIONS: ResponsiveSetOptions = {
+  widths: [480, 960, 1920],
+  formats: ['avif', 'webp', 'jpeg'],
+  sizes: '100vw',
+};
+
+// マニフェストの形式バージョン
+export const RESPONSIVE_MANIFEST_VERSION = 1;
+
+export type ResponsiveVariant = {
+  requestedFormat: OutputFormat;
+  // フォールバック後の実際の形式
+  format: OutputFormat;
+  width: number;
+  height: number;
+  blob: Blob;
+  // ZIP 内・マークアップで使うファイル名（出力ファイル名の決定後に設定）
+  filename?: string;
+};
+
+export type ResponsiveManifestImage = {
+  source: string;
+  sizes: string;
+  variants: { path: string; format: OutputFormat; width: number; height: number; bytes: number }[];
+  html: string;
+};
+
+// <img> に使う形式の優先順（どのブラウザでも表示できるもの）
+const FALLBACK_PRIORITY: OutputFormat[] = ['jpeg', 'png', 'webp', 'avif'];
+
+/**
+ * カンマ・空白区切りの幅指定を解釈（不正な値は除外し、重複を除いて昇順に並べる）
+ */
+export function parseWidths(text: string): number[] {
+  const widths = text
+    .split(/[\s,、]+/)
+    .map(Number)
+    .filter(w => Number.isInteger(w) && w > 0);
+  return Array.from(new Set(widths)).sort((a, b) => a - b);
+}
+
+/**
+ * 幅 × 形式の派生画像を順に生成
+ * 拡大しない設定で縮小するため、元画像より大きい幅や、フォールバックで同じ形式・幅になった組み合わせは 1 つにまとめる
+ */
+export async function generateResponsiveSet(
+  options: ResponsiveSetOptions,
+  convert: (format: OutputFormat, width: number) => Promise<PipelineResult>
+): Promise<ResponsiveVariant[]> {
+  const variants: ResponsiveVariant[] = [];
+  const seen = new Set<string>();
+  for (const format of options.formats) {
+    for (const width of [...options.widths].sort((a, b) => a - b)) {
+      const result = await convert(format, width);
+      const key = `${result.actualFormat}:${result.width}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      variants.push({
+        requestedFormat: format,
+        format: result.actualFormat,
+        width: result.width,
+        height: result.height,
+        blob: result.blob,
+      });
+    }
+  }
+  return variants;
+}
+
+function escapeAttr(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+function srcset(variants: ResponsiveVariant[]): string {
+  return variants.map(v => `${v.filename} ${v.width}w`).join(', ');
+}
+
+/**
+ * コピーして使える <picture> マークアップを生成
+ * <img> には最も互換性の高い形式を使い、width / height 属性で表示前にレイアウトを確保する
+ */
+export function buildPictureMarkup(variants: ResponsiveVariant[], alt: string, sizes: string): string {
+  const named = variants.filter(v => v.filename);
+  if (named.length === 0) return '';
+  const formats = Array.from(new Set(named.map(v => v.format)));
+  const fallbackFormat = FALLBACK_PRIORITY.find(f => formats.includes(f)) ?? formats[0];
+  const byFormat = (format: OutputFormat) => named.filter(v => v.format === format).sort((a, b) => a.width - b.width);
+  const fallback = byFormat(fallbackFormat);
+  const largest = fallback[fallback.length - 1];
+
+  const lines = ['<picture>'];
+  for (const format of formats) {
+    if (format === fallbackFormat) continue;
+    lines.push(`  <source type="${getMimeType(format)}" srcset="${escapeAttr(srcset(byFormat(format)))}" sizes="${escapeAttr(sizes)}" />`);
+  }
+  lines.push(
+    `  <img src="${escapeAttr(largest.filename!)}" srcset="${escapeAttr(srcset(fallback))}" sizes="${escapeAttr(sizes)}"` +
+    ` width="${largest.width}" height="${largest.height}" alt="${escapeAttr(alt)}" loading="lazy" decoding="async" />`
+  );
+  lines.push('</picture>');
+  return lines.join('\n');
+}
+
+/**
+ * ZIP に同梱するマニフェスト JSON を生成
+ */
+export function buildManifest(images: ResponsiveManifestImage[]): string {
+  return JSON.stringify(
+    { version: RESPONSIVE_MANIFEST_VERSION, generatedAt: new Date().toISOString(), images },
+    null,
+    2
+  );
+}
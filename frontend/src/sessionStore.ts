@@ -0,0 +1,184 @@
+/**
+ * セッション保存モジュール
+ * 変換キュー（元ファイル・変換結果・アイテムの状態）を IndexedDB に保存し、ページを再読み込みしても復元できるようにする
+ */
+
+const DB_NAME = 'image-sharpener';
+const DB_VERSION = 1;
+// 元ファイルは追加時に 1 度だけ書き込み、状態の更新では書き直さないよう別のストアに分ける
+const SOURCE_STORE = 'sources';
+const ITEM_STORE = 'items';
+
+/**
+ * 保存するアイテム（Blob を含む構造化複製できる値）
+ * position はキューの並び順の復元に使う
+ */
+export type SessionRecord = {
+  id: string;
+  position: number;
+};
+
+export type RestoredItem<T extends SessionRecord> = {
+  record: T;
+  file: File;
+};
+
+export type SessionUsage = {
+  count: number;
+  // オリジン全体のストレージ使用量と上限（取得できない場合は undefined）
+  usage?: number;
+  quota?: number;
+};
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('トランザクションが中断されました', 'AbortError'));
+  });
+}
+
+/**
+ * キューの保存先
+ * IndexedDB が使えない環境（プライベートモード等）では保存せず、失敗しても変換処理は続ける
+ */
+class SessionStore {
+  private db: Promise<IDBDatabase | null> | null = null;
+
+  /**
+   * 保存されているアイテムを並び順どおりに読み込む
+   * 元ファイルが欠けているアイテムは復元できないため除外する
+   */
+  async load<T extends SessionRecord>(): Promise<RestoredItem<T>[]> {
+    const db = await this.open();
+    if (!db) return [];
+    try {
+      const tx = db.transaction([SOURCE_STORE, ITEM_STORE], 'readonly');
+      const [records, sources] = await Promise.all([
+        promisify<T[]>(tx.objectStore(ITEM_STORE).getAll()),
+        promisify<{ id: string; file: File }[]>(tx.objectStore(SOURCE_STORE).getAll()),
+      ]);
+      const files = new Map(sources.map(source => [source.id, source.file]));
+      return records
+        .filter(record => files.has(record.id))
+        .sort((a, b) => a.position - b.position)
+        .map(record => ({ record, file: files.get(record.id)! }));
+    } catch (error) {
+      console.warn('セッションの読み込みに失敗しました:', error);
+      return [];
+    }
+  }
+
+  /**
+   * アイテムを元ファイルとともに追加
+   * @returns 保存できたか
+   */
+  async add(record: SessionRecord, file: File): Promise<boolean> {
+    return this.write([SOURCE_STORE, ITEM_STORE], tx => {
+      tx.objectStore(SOURCE_STORE).put({ id: record.id, file });
+      tx.objectStore(ITEM_STORE).put(record);
+    });
+  }
+
+  /**
+   * アイテムの状態を更新
+   * 削除済み（元ファイルがない）アイテムは書き込まない
+   */
+  async update(record: SessionRecord): Promise<boolean> {
+    return this.write([SOURCE_STORE, ITEM_STORE], tx => {
+      const count = tx.objectStore(SOURCE_STORE).count(record.id);
+      count.onsuccess = () => {
+        if (count.result > 0) tx.objectStore(ITEM_STORE).put(record);
+      };
+    });
+  }
+
+  async remove(id: string): Promise<boolean> {
+    return this.write([SOURCE_STORE, ITEM_STORE], tx => {
+      tx.objectStore(SOURCE_STORE).delete(id);
+      tx.objectStore(ITEM_STORE).delete(id);
+    });
+  }
+
+  async clear(): Promise<boolean> {
+    return this.write([SOURCE_STORE, ITEM_STORE], tx => {
+      tx.objectStore(SOURCE_STORE).clear();
+      tx.objectStore(ITEM_STORE).clear();
+    });
+  }
+
+  /**
+   * 保存件数とストレージ使用量
+   */
+  async usage(): Promise<SessionUsage> {
+    const db = await this.open();
+    let count = 0;
+    if (db) {
+      try {
+        count = await promisify(db.transaction(ITEM_STORE, 'readonly').objectStore(ITEM_STORE).count());
+      } catch (error) {
+        console.warn('保存件数を取得できませんでした:', error);
+      }
+    }
+    try {
+      const { usage, quota } = (await navigator.storage?.estimate?.()) ?? {};
+      return { count, usage, quota };
+    } catch {
+      return { count };
+    }
+  }
+
+  private async write(stores: string[], run: (tx: IDBTransaction) => void): Promise<boolean> {
+    const db = await this.open();
+    if (!db) return false;
+    try {
+      const tx = db.transaction(stores, 'readwrite');
+      const done = completion(tx);
+      run(tx);
+      await done;
+      return true;
+    } catch (error) {
+      // 容量不足（QuotaExceededError）など
+      console.warn('セッションを保存できませんでした:', error);
+      return false;
+    }
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    this.db ??= new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      let request: IDBOpenDBRequest;
+      try {
+        request = indexedDB.open(DB_NAME, DB_VERSION);
+      } catch (error) {
+        console.warn('IndexedDB を開けませんでした:', error);
+        resolve(null);
+        return;
+      }
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SOURCE_STORE)) db.createObjectStore(SOURCE_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(ITEM_STORE)) db.createObjectStore(ITEM_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('IndexedDB を開けませんでした:', request.error);
+        resolve(null);
+      };
+    });
+    return this.db;
+  }
+}
+
+// シングルトンインスタンス
+export const sessionStore = new SessionStore();
@@ -0,0 +1,174 @@
+/**
+ * シャープ化フィルタモジュール
+ * ImageData 上でアンシャープマスクと 3x3 畳み込みを行い、ブラウザ差異なく同じ結果を得る
+ */
+
+import { getContext2D, type AnyCanvas } from './canvas.js';
+
+export interface SharpenOptions {
+  /** 適用量（0 で無効、1.0 = 100%） */
+  amount: number;
+  /** ぼかし半径（ガウシアンの標準偏差, px） */
+  radius: number;
+  /** しきい値（0〜255）。元画像との差がこれ未満の画素は変更しない */
+  threshold: number;
+  /** 縮小後に軽いシャープ化を追加で行う */
+  postResize: boolean;
+}
+
+export const DEFAULT_SHARPEN_OPTIONS: SharpenOptions = {
+  amount: 0,
+  radius: 1,
+  threshold: 0,
+  postResize: false,
+};
+
+// 縮小後の補正用シャープ化カーネル（中心を強調する弱めのラプラシアン）
+const POST_RESIZE_KERNEL = [
+  0, -0.25, 0,
+  -0.25, 2, -0.25,
+  0, -0.25, 0,
+];
+
+function gaussianKernel(sigma: number): Float32Array {
+  const half = Math.max(1, Math.ceil(sigma * 3));
+  const kernel = new Float32Array(half * 2 + 1);
+  let sum = 0;
+  for (let i = -half; i <= half; i++) {
+    const w = Math.exp(-(i * i) / (2 * sigma * sigma));
+    kernel[i + half] = w;
+    sum += w;
+  }
+  for (let i = 0; i < kernel.length; i++) kernel[i] /= sum;
+  return kernel;
+}
+
+/**
+ * RGB チャンネルにガウシアンぼかしを適用（アルファは対象外）
+ * 透明な画素の RGB（unpremultiply 後は黒）が混ざって輪郭に縁が出ないよう、アルファで重み付けして平均する
+ * 端の画素は境界値で延長する
+ */
+function gaussianBlurRGB(data: Uint8ClampedArray, width: number, height: number, sigma: number): Float32Array {
+  const kernel = gaussianKernel(sigma);
+  const half = (kernel.length - 1) / 2;
+  // 水平方向の結果は、アルファを掛けた RGB とアルファの重みの 4 チャンネルで持つ
+  const temp = new Float32Array(width * height * 4);
+  const out = new Float32Array(width * height * 3);
+
+  // 水平方向
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = -half; k <= half; k++) {
+        const sx = Math.min(width - 1, Math.max(0, x + k));
+        const p = (y * width + sx) * 4;
+        const w = kernel[k + half] * data[p + 3];
+        r += data[p] * w;
+        g += data[p + 1] * w;
+        b += data[p + 2] * w;
+        a += w;
+      }
+      const o = (y * width + x) * 4;
+      temp[o] = r;
+      temp[o + 1] = g;
+      temp[o + 2] = b;
+      temp[o + 3] = a;
+    }
+  }
+
+  // 垂直方向（周囲がすべて透明な画素は元の色のまま）
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = -half; k <= half; k++) {
+        const sy = Math.min(height - 1, Math.max(0, y + k));
+        const p = (sy * width + x) * 4;
+        const w = kernel[k + half];
+        r += temp[p] * w;
+        g += temp[p + 1] * w;
+        b += temp[p + 2] * w;
+        a += temp[p + 3] * w;
+      }
+      const o = (y * width + x) * 3;
+      const i = (y * width + x) * 4;
+      out[o] = a > 0 ? r / a : data[i];
+      out[o + 1] = a > 0 ? g / a : data[i + 1];
+      out[o + 2] = a > 0 ? b / a : data[i + 2];
+    }
+  }
+  return out;
+}
+
+/**
+ * アンシャープマスク
+ * 元画像とぼかし画像の差分を amount 倍して加算する
+ */
+export function unsharpMask(src: ImageData, options: Pick<SharpenOptions, 'amount' | 'radius' | 'threshold'>): ImageData {
+  const { width, height, data } = src;
+  const blurred = gaussianBlurRGB(data, width, height, Math.max(0.1, options.radius));
+  const out = new Uint8ClampedArray(data.length);
+  for (let i = 0, j = 0; i < data.length; i += 4, j += 3) {
+    for (let c = 0; c < 3; c++) {
+      const diff = data[i + c] - blurred[j + c];
+      out[i + c] = Math.abs(diff) >= options.threshold
+        ? data[i + c] + diff * options.amount
+        : data[i + c];
+    }
+    out[i + 3] = data[i + 3];
+  }
+  return new ImageData(out, width, height);
+}
+
+/**
+ * 3x3 畳み込みフィルタ（RGB のみ、端は境界値で延長）
+ * 完全に透明な近傍画素は、輪郭に縁が出ないよう中心の画素で置き換えて計算する
+ */
+export function convolve3x3(src: ImageData, kernel: readonly number[]): ImageData {
+  const { width, height, data } = src;
+  const out = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      let r = 0, g = 0, b = 0;
+      for (let ky = -1; ky <= 1; ky++) {
+        const sy = Math.min(height - 1, Math.max(0, y + ky));
+        for (let kx = -1; kx <= 1; kx++) {
+          const sx = Math.min(width - 1, Math.max(0, x + kx));
+          const n = (sy * width + sx) * 4;
+          const p = data[n + 3] === 0 ? o : n;
+          const w = kernel[(ky + 1) * 3 + (kx + 1)];
+          r += data[p] * w;
+          g += data[p + 1] * w;
+          b += data[p + 2] * w;
+        }
+      }
+      out[o] = r;
+      out[o + 1] = g;
+      out[o + 2] = b;
+      out[o + 3] = data[o + 3];
+    }
+  }
+  return new ImageData(out, width, height);
+}
+
+function applyToCanvas(canvas: AnyCanvas, filter: (src: ImageData) => ImageData): AnyCanvas {
+  const ctx = getContext2D(canvas);
+  const result = filter(ctx.getImageData(0, 0, canvas.width, canvas.height));
+  ctx.putImageData(result, 0, 0);
+  return canvas;
+}
+
+/**
+ * キャンバスにアンシャープマスクを適用（amount が 0 なら何もしない）
+ */
+export function sharpenCanvas(canvas: AnyCanvas, options: SharpenOptions): AnyCanvas {
+  if (options.amount <= 0) return canvas;
+  return applyToCanvas(canvas, (src) => unsharpMask(src, options));
+}
+
+/**
+ * 縮小で甘くなったエッジを 3x3 カーネルで補正
+ */
+export function postResizeSharpenCanvas(canvas: AnyCanvas): AnyCanvas {
+  return applyToCanvas(canvas, (src) => convolve3x3(src, POST_RESIZE_KERNEL));
+}
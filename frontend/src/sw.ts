@@ -0,0 +1,98 @@
+/**
+ * Service Worker
+ * ビルド出力をすべてプリキャッシュしてオフラインで動作させ、Web Share Target で共有された画像を受け取る
+ * 単独のスクリプトとして登録するため、他のモジュールを import しない（定数は pwa.ts と揃える）
+ */
+
+// ビルド時に出力ファイルの一覧（{ version, urls }）へ置き換える
+const PRECACHE_MANIFEST = '__PRECACHE_MANIFEST__';
+
+const PRECACHE_PREFIX = 'image-sharpener-precache-';
+const SHARED_FILES_CACHE = 'image-sharpener-shared';
+const SHARE_TARGET_PATH = '/share-target';
+const SHARE_TARGET_PARAM = 'share-target';
+const SHARE_TARGET_FIELD = 'images';
+
+// lib.dom には Service Worker のイベント型がないため、使う分だけ定義する
+type ExtendableEvent = Event & { waitUntil(promise: Promise<unknown>): void };
+type FetchEvent = ExtendableEvent & {
+  request: Request;
+  respondWith(response: Response | Promise<Response>): void;
+};
+type ServiceWorkerScope = {
+  clients: { claim(): Promise<void> };
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+};
+
+const sw = self as unknown as ServiceWorkerScope;
+const { version, urls } = JSON.parse(PRECACHE_MANIFEST) as { version: string; urls: string[] };
+const cacheName = PRECACHE_PREFIX + version;
+
+// 更新時は新しい版を丸ごと取得し終えてから切り替える（HTTP キャッシュは使わない）
+sw.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(cacheName).then(cache => cache.addAll(urls.map(url => new Request(url, { cache: 'reload' }))))
+  );
+});
+
+sw.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(
+      names.filter(name => name.startsWith(PRECACHE_PREFIX) && name !== cacheName).map(name => caches.delete(name))
+    );
+    await sw.clients.claim();
+  })());
+});
+
+sw.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== location.origin) return;
+
+  if (request.method === 'POST' && url.pathname === SHARE_TARGET_PATH) {
+    event.respondWith(receiveSharedFiles(request));
+    return;
+  }
+  if (request.method !== 'GET') return;
+
+  // ページはどの URL（?share-target など）でもプリキャッシュしたアプリ本体を返す
+  if (request.mode === 'navigate') {
+    event.respondWith(fromCache('/', request));
+    return;
+  }
+  if (urls.includes(url.pathname)) {
+    event.respondWith(fromCache(url.pathname, request));
+  }
+});
+
+// プリキャッシュから返し、見つからない場合（インストール途中など）はネットワークから取得
+async function fromCache(key: string, request: Request): Promise<Response> {
+  const cache = await caches.open(cacheName);
+  return (await cache.match(key)) ?? fetch(request);
+}
+
+/**
+ * 共有されたファイルをキャッシュに一時保存し、アプリ本体へリダイレクト
+ * ページ側（pwa.ts）が読み出して削除する
+ */
+async function receiveSharedFiles(request: Request): Promise<Response> {
+  try {
+    const data = await request.formData();
+    const files = data.getAll(SHARE_TARGET_FIELD).filter((value): value is File => value instanceof File);
+    await caches.delete(SHARED_FILES_CACHE);
+    const cache = await caches.open(SHARED_FILES_CACHE);
+    // 共有された順に読み出せるよう 1 件ずつ保存する
+    for (const [i, file] of files.entries()) {
+      await cache.put(`/shared/${i}`, new Response(file, {
+        headers: { 'Content-Type': file.type, 'X-Filename': encodeURIComponent(file.name) },
+      }));
+    }
+  } catch (err) {
+    console.error('共有されたファイルを受け取れませんでした', err);
+  }
+  return Response.redirect(`/?${SHARE_TARGET_PARAM}`, 303);
+}
+
+export {};
@@ -0,0 +1,53 @@
+/**
+ * 透過処理モジュール
+ * 透明・半透明の画素の検出と、アルファを保存できない形式（JPEG）向けに背景色で塗りつぶす処理を提供
+ */
+
+import type { OutputFormat } from './browserCapabilities.js';
+import { createCanvas, getContext2D, type AnyCanvas } from './canvas.js';
+
+// 背景色を指定しない場合（自動）は白で塗りつぶす
+export const DEFAULT_MATTE = '#ffffff';
+
+// 大きな画像でも一度に全画素を読み出さないよう、この行数ずつ走査する
+const SCAN_ROWS = 256;
+
+// 目標サイズの品質探索では同じキャンバスを何度もエンコードするため、検出結果を覚えておく
+const transparencyCache = new WeakMap<AnyCanvas, boolean>();
+
+export function supportsAlpha(format: OutputFormat): boolean {
+  return format !== 'jpeg';
+}
+
+/**
+ * 不透明でない画素（アルファ < 255）があるか
+ */
+export function hasTransparency(canvas: AnyCanvas): boolean {
+  const cached = transparencyCache.get(canvas);
+  if (cached !== undefined) return cached;
+  const ctx = getContext2D(canvas);
+  let found = false;
+  for (let y = 0; y < canvas.height && !found; y += SCAN_ROWS) {
+    const { data } = ctx.getImageData(0, y, canvas.width, Math.min(SCAN_ROWS, canvas.height - y));
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] < 255) {
+        found = true;
+        break;
+      }
+    }
+  }
+  transparencyCache.set(canvas, found);
+  return found;
+}
+
+/**
+ * 背景色の上に画像を重ねた不透明なキャンバスを生成
+ */
+export function flattenAlpha(canvas: AnyCanvas, matte = DEFAULT_MATTE): AnyCanvas {
+  const { canvas: flattened, ctx } = createCanvas(canvas.width, canvas.height);
+  ctx.fillStyle = matte;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(canvas, 0, 0);
+  transparencyCache.set(flattened, false);
+  return flattened;
+}
@@ -0,0 +1,96 @@
+/**
+ * WASM エンコーダモジュール
+ * MozJPEG / libwebp / libavif / oxipng を、必要になった形式の分だけ動的 import で遅延読み込みする
+ */
+
+import type { OutputFormat } from './browserCapabilities.js';
+import { getContext2D, type AnyCanvas } from './canvas.js';
+import { getMimeType } from './formatUtils.js';
+
+/**
+ * WASM エンコーダ使用時の詳細設定
+ */
+export interface CodecOptions {
+  /** JPEG をプログレッシブで出力 */
+  jpegProgressive: boolean;
+  /** 色差サブサンプリング（JPEG / AVIF） */
+  chromaSubsampling: '420' | '444';
+  /** AVIF のエンコード速度（0 = 最遅・高圧縮 〜 10 = 最速） */
+  avifSpeed: number;
+  /** oxipng の最適化レベル（0〜6） */
+  pngLevel: number;
+}
+
+export const DEFAULT_CODEC_OPTIONS: CodecOptions = {
+  jpegProgressive: true,
+  chromaSubsampling: '420',
+  avifSpeed: 6,
+  pngLevel: 2,
+};
+
+export const WASM_ENCODER_LABELS: Record<OutputFormat, string> = {
+  jpeg: 'MozJPEG',
+  webp: 'libwebp',
+  avif: 'libavif',
+  png: 'oxipng',
+};
+
+/**
+ * WASM エンコーダでキャンバスをエンコード
+ * quality は Canvas と同じ 0〜1 の値で受け取り、各コーデックの 0〜100 に変換する
+ */
+export async function encodeWithWasm(
+  canvas: AnyCanvas,
+  format: OutputFormat,
+  quality: number,
+  options: CodecOptions
+): Promise<Blob> {
+  const imageData = getContext2D(canvas).getImageData(0, 0, canvas.width, canvas.height);
+  const q = Math.round(Math.min(1, Math.max(0, quality)) * 100);
+  let buffer: ArrayBuffer;
+
+  switch (format) {
+    case 'jpeg': {
+      const { default: encode } = await import('@jsquash/jpeg/encode.js');
+      buffer = await encode(imageData, {
+        quality: q,
+        progressive: options.jpegProgressive,
+        auto_subsample: false,
+        // mozjpeg の chroma_subsample は縮小率（2 = 4:2:0, 1 = 4:4:4）
+        chroma_subsample: options.chromaSubsampling === '444' ? 1 : 2,
+      });
+      break;
+    }
+    case 'webp': {
+      const { default: encode } = await import('@jsquash/webp/encode.js');
+      buffer = await encode(imageData, { quality: q });
+      break;
+    }
+    case 'avif': {
+      const { default: encode } = await import('@jsquash/avif/encode.js');
+      buffer = await encode(imageData, {
+        quality: q,
+        speed: options.avifSpeed,
+        // libavif の subsample（1 = 4:2:0, 3 = 4:4:4）
+        subsample: options.chromaSubsampling === '444' ? 3 : 1,
+      });
+      break;
+    }
+    case 'png': {
+      const { default: optimise } = await import('@jsquash/oxipng/optimise.js');
+      buffer = await optimise(imageData, { level: options.pngLevel });
+      break;
+    }
+  }
+
+  return new Blob([buffer], { type: getMimeType(format) });
+}
+
+/**
+ * 書き出し済みの PNG を oxipng で最適化（パレットなどの色の情報は変えずに圧縮し直す）
+ */
+export async function optimisePngWithWasm(png: Blob, options: CodecOptions): Promise<Blob> {
+  const { default: optimise } = await import('@jsquash/oxipng/optimise.js');
+  const buffer = await optimise(await png.arrayBuffer(), { level: options.pngLevel });
+  return new Blob([buffer], { type: getMimeType('png') });
+}
@@ -0,0 +1,130 @@
+/**
+ * 透かしモジュール
+ * テキストまたはロゴ画像の透かしを、エンコード前のキャンバスに描き込む。メインスレッドと Web Worker で共通
+ */
+
+import { createCanvas, getContext2D, type AnyCanvas } from './canvas.js';
+
+export type WatermarkPosition =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+export type WatermarkOptions = {
+  kind: 'text' | 'logo';
+  text: string;
+  // CSS の font-family（Worker でも使えるよう総称ファミリーを指定する）
+  font: string;
+  color: string;
+  shadow: boolean;
+  // ロゴ画像（Worker へはそのまま構造化複製で渡す）
+  logo?: Blob;
+  position: WatermarkPosition;
+  // 画像の幅に対する余白（%）
+  margin: number;
+  // 不透明度（0〜1）
+  opacity: number;
+  // 画像の幅に対する大きさ（%）。テキストは文字の高さ、ロゴは幅
+  scale: number;
+  // 斜めに敷き詰める（position・margin は使わない）
+  tile: boolean;
+};
+
+// 敷き詰める場合の透かしの間隔（透かしの大きさに対する倍率）と、描画回数が増えすぎないための最小間隔（対角線に対する割合）
+const TILE_GAP_X = 1.6;
+const TILE_GAP_Y = 3;
+const TILE_MIN_STEP = 1 / 40;
+
+/**
+ * 透かし 1 個分を描いたキャンバスを生成（影の分の余白を含む）
+ */
+async function renderMark(options: WatermarkOptions, imageWidth: number): Promise<AnyCanvas | null> {
+  const size = Math.max(1, (imageWidth * options.scale) / 100);
+
+  if (options.kind === 'logo') {
+    if (!options.logo) return null;
+    let bitmap: ImageBitmap;
+    try {
+      bitmap = await createImageBitmap(options.logo);
+    } catch {
+      throw new Error('透かしのロゴ画像を読み込めませんでした');
+    }
+    try {
+      const width = Math.max(1, Math.round(size));
+      const height = Math.max(1, Math.round((size * bitmap.height) / bitmap.width));
+      const { canvas, ctx } = createCanvas(width, height);
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(bitmap, 0, 0, width, height);
+      return canvas;
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  const text = options.text.trim();
+  if (!text) return null;
+  const font = `${size}px ${options.font}`;
+  const padding = options.shadow ? Math.ceil(size * 0.15) : 0;
+  const measure = createCanvas(1, 1).ctx;
+  measure.font = font;
+  const width = Math.ceil(measure.measureText(text).width) + padding * 2;
+  const height = Math.ceil(size * 1.25) + padding * 2;
+  const { canvas, ctx } = createCanvas(Math.max(1, width), Math.max(1, height));
+  ctx.font = font;
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = options.color;
+  if (options.shadow) {
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+    ctx.shadowBlur = size * 0.08;
+    ctx.shadowOffsetX = size * 0.04;
+    ctx.shadowOffsetY = size * 0.04;
+  }
+  ctx.fillText(text, padding, height / 2);
+  return canvas;
+}
+
+/**
+ * 9 点の基準位置と余白から、透かしの左上の座標を求める
+ */
+function placeMark(position: WatermarkPosition, margin: number, canvas: AnyCanvas, mark: AnyCanvas) {
+  const column = position.endsWith('left') ? 0 : position.endsWith('right') ? 2 : 1;
+  const row = position.startsWith('top') ? 0 : position.startsWith('bottom') ? 2 : 1;
+  const place = (index: number, outer: number, inner: number) =>
+    index === 0 ? margin : index === 2 ? outer - inner - margin : (outer - inner) / 2;
+  return { x: place(column, canvas.width, mark.width), y: place(row, canvas.height, mark.height) };
+}
+
+/**
+ * キャンバスに透かしを描き込む（元のキャンバスを書き換える）
+ * テキストが空、またはロゴが未設定の場合は何もしない
+ */
+export async function drawWatermark(canvas: AnyCanvas, options: WatermarkOptions): Promise<void> {
+  const mark = await renderMark(options, canvas.width);
+  if (!mark) return;
+  const ctx = getContext2D(canvas);
+  ctx.save();
+  ctx.globalAlpha = Math.min(1, Math.max(0, options.opacity));
+
+  if (options.tile) {
+    // 中心を軸に -45° 回転させ、回転後も画像全体を覆うよう対角線の長さの範囲に並べる
+    const diagonal = Math.hypot(canvas.width, canvas.height);
+    const stepX = Math.max(mark.width * TILE_GAP_X, diagonal * TILE_MIN_STEP);
+    const stepY = Math.max(mark.height * TILE_GAP_Y, diagonal * TILE_MIN_STEP);
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate(-Math.PI / 4);
+    let row = 0;
+    for (let y = -diagonal / 2; y < diagonal / 2 + stepY; y += stepY, row++) {
+      // 行ごとに半分ずらして格子模様に見えないようにする
+      const offset = row % 2 === 0 ? 0 : stepX / 2;
+      for (let x = -diagonal / 2 - offset; x < diagonal / 2 + stepX; x += stepX) {
+        ctx.drawImage(mark, x - mark.width / 2, y - mark.height / 2);
+      }
+    }
+  } else {
+    const margin = (canvas.width * options.margin) / 100;
+    const { x, y } = placeMark(options.position, margin, canvas, mark);
+    ctx.drawImage(mark, Math.round(x), Math.round(y));
+  }
+
+  ctx.restore();
+}
@@ -0,0 +1,152 @@
+/**
+ * 画像処理 Worker プール
+ * 最大 size 個の Worker を必要に応じて生成し、1 Worker につき 1 ジョブずつ処理する
+ */
+
+import type { QualityMetrics } from './metrics.js';
+import type { ConversionOptions, PipelineResult } from './pipeline.js';
+import type { WorkerRequest, WorkerResponse } from './workerProtocol.js';
+
+type Job = {
+  request: Extract<WorkerRequest, { type: 'process' | 'metrics' }>;
+  transfer: Transferable[];
+  // 処理できなかった場合は null
+  resolve: (response: WorkerResponse | null) => void;
+  reject: (error: Error) => void;
+};
+
+export function createImageWorker(): Worker {
+  return new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' });
+}
+
+export class ImageWorkerPool {
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private waiting: Job[] = [];
+  private running = new Map<Worker, Job>();
+  private nextId = 1;
+  private readonly size: number;
+
+  constructor(size: number) {
+    this.size = Math.max(1, size);
+  }
+
+  /**
+   * Worker で変換を実行
+   * Worker で処理できない画像（デコード不可・Worker 異常終了）の場合は null を返す
+   * signal が中断されると待機中のジョブは取り消し、実行中のジョブは Worker に中断を伝えて AbortError で失敗させる
+   */
+  async process(file: Blob, options: ConversionOptions, signal?: AbortSignal): Promise<PipelineResult | null> {
+    const response = await this.enqueue({ id: this.nextId++, type: 'process', file, options }, [], signal);
+    if (!response) return null;
+    if (response.type !== 'process') throw new Error('Worker から想定外の応答がありました');
+    const { buffer, mimeType, ...rest } = response.result;
+    return { ...rest, blob: new Blob([buffer], { type: mimeType }) };
+  }
+
+  /**
+   * Worker で画質指標を算出
+   * reference の画素は Worker に転送されるため、呼び出し後は使用できない
+   */
+  async measure(reference: ImageData, encoded: Blob): Promise<QualityMetrics | null> {
+    const response = await this.enqueue(
+      { id: this.nextId++, type: 'metrics', reference, encoded },
+      [reference.data.buffer]
+    );
+    if (!response) return null;
+    if (response.type !== 'metrics') throw new Error('Worker から想定外の応答がありました');
+    return response.metrics;
+  }
+
+  private enqueue(request: Job['request'], transfer: Transferable[] = [], signal?: AbortSignal): Promise<WorkerResponse | null> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => this.cancel(job, signal!.reason);
+      const job: Job = {
+        request,
+        transfer,
+        resolve: (response) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(response);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiting.push(job);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * ジョブを中断
+   * 実行中の Worker は中断の区切りまで処理を続けるため、応答が届くまで次のジョブは割り当てない
+   */
+  private cancel(job: Job, reason: unknown) {
+    const index = this.waiting.indexOf(job);
+    if (index >= 0) {
+      this.waiting.splice(index, 1);
+    } else {
+      for (const [worker, runningJob] of this.running) {
+        if (runningJob === job) worker.postMessage({ id: job.request.id, type: 'cancel' } satisfies WorkerRequest);
+      }
+    }
+    job.reject(reason instanceof Error ? reason : new DOMException('処理を中断しました', 'AbortError'));
+  }
+
+  private dispatch() {
+    while (this.waiting.length > 0) {
+      let worker = this.idle.pop();
+      if (!worker && this.workers.length < this.size) {
+        worker = this.spawn();
+      }
+      if (!worker) return;
+      const job = this.waiting.shift()!;
+      this.running.set(worker, job);
+      worker.postMessage(job.request, job.transfer);
+    }
+  }
+
+  private spawn(): Worker {
+    const worker = createImageWorker();
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(worker, event.data);
+    worker.onerror = (event) => {
+      event.preventDefault();
+      this.handleCrash(worker);
+    };
+    this.workers.push(worker);
+    return worker;
+  }
+
+  private handleMessage(worker: Worker, response: WorkerResponse) {
+    const job = this.running.get(worker);
+    if (!job || job.request.id !== response.id) return;
+    this.running.delete(worker);
+    this.idle.push(worker);
+
+    if (response.type === 'unsupported') {
+      job.resolve(null);
+    } else if (response.type === 'error') {
+      job.reject(new Error(response.error));
+    } else {
+      job.resolve(response);
+    }
+    this.dispatch();
+  }
+
+  // 異常終了した Worker は破棄し、実行中だったジョブはメインスレッドに回す
+  private handleCrash(worker: Worker) {
+    const job = this.running.get(worker);
+    this.running.delete(worker);
+    worker.terminate();
+    this.workers = this.workers.filter(w => w !== worker);
+    this.idle = this.idle.filter(w => w !== worker);
+    job?.resolve(null);
+    this.dispatch();
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * メインスレッドと画像処理 Worker 間のメッセージ定義
+ */
+
+import type { FormatSupport } from './browserCapabilities.js';
+import type { QualityMetrics } from './metrics.js';
+import type { ConversionOptions, PipelineResult } from './pipeline.js';
+
+export type WorkerRequest =
+  | { id: number; type: 'probe' }
+  | { id: number; type: 'process'; file: Blob; options: ConversionOptions }
+  // メインスレッドで変換した画像の画質指標だけを算出する（reference の画素は転送する）
+  | { id: number; type: 'metrics'; reference: ImageData; encoded: Blob }
+  // 実行中の process を中断する（応答は返さない）
+  | { id: number; type: 'cancel' };
+
+// 結果の Blob は ArrayBuffer として転送し、受信側で Blob に戻す
+export type TransferredResult = Omit<PipelineResult, 'blob'> & { buffer: ArrayBuffer; mimeType: string };
+
+export type WorkerResponse =
+  | { id: number; type: 'probe'; support: FormatSupport }
+  | { id: number; type: 'process'; result: TransferredResult }
+  | { id: number; type: 'metrics'; metrics: QualityMetrics }
+  | { id: number; type: 'error'; error: string }
+  // Worker ではデコードできなかった（SVG など）。メインスレッドで処理し直す
+  | { id: number; type: 'unsupported'; error: string };
@@ -0,0 +1,159 @@
+/**
+ * ZIP 書き出しモジュール
+ * fflate のストリーミング Zip で 1 ファイルずつ少しずつ書き出し、大量の画像でもメモリに全体を展開しない
+ */
+
+import { Zip, ZipDeflate, ZipPassThrough } from 'fflate';
+
+export type ZipEntry = {
+  // ZIP 内のパス（フォルダは / 区切り）
+  path: string;
+  blob: Blob;
+};
+
+export type ZipProgress = {
+  // 書き込み済みの入力バイト数と合計
+  bytesDone: number;
+  bytesTotal: number;
+  filesDone: number;
+  filesTotal: number;
+};
+
+export type WriteZipOptions = {
+  signal?: AbortSignal;
+  onProgress?: (progress: ZipProgress) => void;
+};
+
+/**
+ * ZIP の書き出し先
+ * close() はメモリ上に組み立てた場合のみ Blob を返す（ファイルへ直接書いた場合は null）
+ */
+export interface ZipTarget {
+  write(chunk: Uint8Array): Promise<void>;
+  close(): Promise<Blob | null>;
+  abort(): Promise<void>;
+}
+
+// 圧縮済みの形式は再圧縮しても小さくならないため無圧縮で格納する
+const STORED_TYPES = new Set(['image/jpeg', 'image/png', 'image/webp', 'image/avif', 'image/gif', 'application/zip']);
+
+type SaveFilePicker = (options?: {
+  suggestedName?: string;
+  types?: { description?: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+function abortError(): DOMException {
+  return new DOMException('ZIP の作成を中止しました', 'AbortError');
+}
+
+/**
+ * メモリ上に ZIP を組み立てる書き出し先
+ * 出力チャンクをそのまま Blob にまとめるため、1 つの巨大な配列にはコピーしない
+ */
+export function createMemoryTarget(): ZipTarget {
+  let chunks: BlobPart[] = [];
+  return {
+    async write(chunk) {
+      chunks.push(chunk as Uint8Array<ArrayBuffer>);
+    },
+    async close() {
+      const blob = new Blob(chunks, { type: 'application/zip' });
+      chunks = [];
+      return blob;
+    },
+    async abort() {
+      chunks = [];
+    },
+  };
+}
+
+/**
+ * 保存先を選んでもらい、ファイルへ直接書き出す書き出し先を開く
+ * File System Access API が使えない場合はメモリ上に組み立てる
+ * ユーザーが保存ダイアログを閉じた場合は AbortError を投げる（ユーザー操作の直後に呼ぶこと）
+ */
+export async function openZipTarget(suggestedName: string): Promise<ZipTarget> {
+  const picker = (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+  if (!picker) return createMemoryTarget();
+
+  const handle = await picker({
+    suggestedName,
+    types: [{ description: 'ZIP アーカイブ', accept: { 'application/zip': ['.zip'] } }],
+  });
+  const writable = await handle.createWritable();
+  return {
+    async write(chunk) {
+      await writable.write(chunk as Uint8Array<ArrayBuffer>);
+    },
+    async close() {
+      await writable.close();
+      return null;
+    },
+    async abort() {
+      await writable.abort();
+    },
+  };
+}
+
+/**
+ * エントリを順に ZIP へ書き出す
+ * 書き出し先への書き込みを待ってから次のチャンクを読むため、ディスクが遅くてもメモリに溜まらない
+ */
+export async function writeZip(entries: ZipEntry[], target: ZipTarget, options: WriteZipOptions = {}): Promise<Blob | null> {
+  const { signal, onProgress } = options;
+  const progress: ZipProgress = {
+    bytesDone: 0,
+    bytesTotal: entries.reduce((sum, entry) => sum + entry.blob.size, 0),
+    filesDone: 0,
+    filesTotal: entries.length,
+  };
+
+  let pendingWrite: Promise<void> = Promise.resolve();
+  let zipError: Error | null = null;
+  const zip = new Zip((err, data) => {
+    if (err) {
+      zipError = err;
+      return;
+    }
+    const chunk = data;
+    pendingWrite = pendingWrite.then(() => target.write(chunk));
+  });
+
+  try {
+    onProgress?.(progress);
+    for (const entry of entries) {
+      if (signal?.aborted) throw abortError();
+      const file = STORED_TYPES.has(entry.blob.type)
+        ? new ZipPassThrough(entry.path)
+        : new ZipDeflate(entry.path, { level: 6 });
+      zip.add(file);
+
+      const reader = entry.blob.stream().getReader();
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (signal?.aborted) throw abortError();
+          file.push(value ?? new Uint8Array(0), done);
+          await pendingWrite;
+          if (zipError) throw zipError;
+          if (done) break;
+          progress.bytesDone += value.length;
+          onProgress?.(progress);
+        }
+      } finally {
+        reader.releaseLock();
+      }
+      progress.filesDone++;
+      onProgress?.(progress);
+    }
+    zip.end();
+    await pendingWrite;
+    if (zipError) throw zipError;
+    return await target.close();
+  } catch (err) {
+    zip.terminate();
+    await pendingWrite.catch(() => {});
+    await target.abort().catch(() => {});
+    throw err;
+  }
+}
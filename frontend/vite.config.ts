@@ -0,0 +1,65 @@
+import { createHash } from 'node:crypto';
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { join, relative, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { defineConfig, type Plugin } from 'vite';
+
+const SERVICE_WORKER_FILE = 'sw.js';
+
+async function listFiles(dir: string, root = dir): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(entries.map(entry => {
+    const path = join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(path, root) : [relative(root, path).split('\\').join('/')];
+  }));
+  return nested.flat().sort();
+}
+
+/**
+ * Service Worker（src/sw.ts）を /sw.js としてビルドし、プリキャッシュするファイル一覧を埋め込む
+ * Worker のチャンクや WASM、public のファイルも含めるため、書き出しが終わった出力ディレクトリを走査する
+ */
+function serviceWorker(): Plugin {
+  let outDir = '';
+  return {
+    name: 'image-sharpener:service-worker',
+    apply: 'build',
+    configResolved(config) {
+      outDir = resolve(config.root, config.build.outDir);
+    },
+    buildStart() {
+      this.emitFile({
+        type: 'chunk',
+        id: fileURLToPath(new URL('./src/sw.ts', import.meta.url)),
+        fileName: SERVICE_WORKER_FILE,
+      });
+    },
+    async closeBundle() {
+      const files = (await listFiles(outDir)).filter(file => file !== SERVICE_WORKER_FILE);
+      // 出力内容が変わったときだけ版が上がり、古いキャッシュが入れ替わる
+      const hash = createHash('sha256');
+      for (const file of files) hash.update(file).update(await readFile(join(outDir, file)));
+      const manifest = {
+        version: hash.digest('hex').slice(0, 12),
+        urls: files.map(file => (file === 'index.html' ? '/' : `/${file}`)),
+      };
+      const swPath = join(outDir, SERVICE_WORKER_FILE);
+      const code = await readFile(swPath, 'utf8');
+      const replaced = code.replace(/([`'"])__PRECACHE_MANIFEST__\1/, () => JSON.stringify(JSON.stringify(manifest)));
+      if (replaced === code) throw new Error(`${SERVICE_WORKER_FILE} にプリキャッシュ一覧を埋め込めませんでした`);
+      await writeFile(swPath, replaced);
+    },
+  };
+}
+
+export default defineConfig({
+  plugins: [serviceWorker()],
+  // jSquash は import.meta.url で .wasm を解決するため、事前バンドルの対象外にする
+  optimizeDeps: {
+    exclude: ['@jsquash/avif', '@jsquash/jpeg', '@jsquash/oxipng', '@jsquash/webp'],
+  },
+  worker: {
+    // Worker 内で WASM コーデックを動的 import するため ES モジュール形式で出力
+    format: 'es',
+  },
+});
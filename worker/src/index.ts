@@ -2,22 +2,36 @@ type AssetsEnv = {
   ASSETS: { fetch: (request: Request) => Promise<Response> };
 };
 
-function withSecurityHeaders(response: Response): Response {
+// ページ（および Worker / WASM）の CSP
+const PAGE_CSP = [
+  "default-src 'self'",
+  "img-src 'self' blob: data:",
+  "script-src 'self' 'wasm-unsafe-eval'",
+  "style-src 'self' 'unsafe-inline'",
+  "connect-src 'self'",
+  "worker-src 'self'",
+  "manifest-src 'self'",
+  "object-src 'none'",
+  "base-uri 'self'",
+  "frame-ancestors 'none'",
+].join('; ');
+
+// Service Worker はプリキャッシュの取得（同一オリジンへの fetch）だけを許可する
+const SERVICE_WORKER_CSP = ["default-src 'none'", "connect-src 'self'"].join('; ');
+
+// マニフェストは JSON として読まれるだけなので何も許可しない
+const MANIFEST_CSP = "default-src 'none'";
+
+// 静的アセットとして Worker を通さずに配信されないよう、wrangler.toml の run_worker_first にも同じパスを指定する
+const SERVICE_WORKER_PATH = '/sw.js';
+const MANIFEST_PATH = '/manifest.webmanifest';
+// Web Share Target の送信先（通常は Service Worker が受け取る）
+const SHARE_TARGET_PATH = '/share-target';
+
+function withSecurityHeaders(response: Response, csp = PAGE_CSP): Response {
   const res = new Response(response.body, response);
   const headers = res.headers;
-  headers.set(
-    "Content-Security-Policy",
-    [
-      "default-src 'self'",
-      "img-src 'self' blob: data:",
-      "script-src 'self'",
-      "style-src 'self' 'unsafe-inline'",
-      "connect-src 'self'",
-      "object-src 'none'",
-      "base-uri 'self'",
-      "frame-ancestors 'none'",
-    ].join('; ')
-  );
+  headers.set("Content-Security-Policy", csp);
   headers.set('X-Content-Type-Options', 'nosniff');
   headers.set('Referrer-Policy', 'no-referrer');
   headers.set('Cross-Origin-Resource-Policy', 'same-origin');
@@ -37,18 +51,34 @@ export default {
       res.headers.set('Cache-Control', 'no-store');
       return res;
     }
+    // Service Worker が未登録の状態で共有された場合は、ファイルを受け取れないためアプリを開くだけにする
+    if (url.pathname === SHARE_TARGET_PATH && request.method === 'POST') {
+      const res = withSecurityHeaders(Response.redirect(new URL('/', url).toString(), 303));
+      res.headers.set('Cache-Control', 'no-store');
+      return res;
+    }
     const resp = await env.ASSETS.fetch(request);
     const contentType = resp.headers.get('content-type') || '';
+    // Service Worker とマニフェストは更新を確実に検出できるよう毎回再検証させる
+    if (url.pathname === SERVICE_WORKER_PATH) {
+      const res = withSecurityHeaders(resp, SERVICE_WORKER_CSP);
+      res.headers.set('Cache-Control', 'no-cache');
+      return res;
+    }
+    if (url.pathname === MANIFEST_PATH) {
+      const res = withSecurityHeaders(resp, MANIFEST_CSP);
+      res.headers.set('Content-Type', 'application/manifest+json');
+      res.headers.set('Cache-Control', 'no-cache');
+      return res;
+    }
     const resWithHeaders = withSecurityHeaders(resp);
-    // 簡易キャッシュポリシー: HTMLはno-store, それ以外は長期
+    // キャッシュポリシー: HTMLはno-store、ファイル名にハッシュを含む /assets/ 配下は長期、それ以外（アイコンなど）は短期
     if (contentType.includes('text/html')) {
       resWithHeaders.headers.set('Cache-Control', 'no-store');
-    } else if (
-      contentType.includes('text/css') ||
-      contentType.includes('javascript') ||
-      contentType.startsWith('image/')
-    ) {
+    } else if (url.pathname.startsWith('/assets/')) {
       resWithHeaders.headers.set('Cache-Control', 'public, max-age=31536000, immutable');
+    } else if (resp.ok) {
+      resWithHeaders.headers.set('Cache-Control', 'public, max-age=3600');
     }
     return resWithHeaders;
   },